@@ -1,11 +1,22 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { v4 as uuidv4 } from 'uuid';
 import { GameEngine } from './game/GameEngine';
 import { GameCanvas } from './components/GameCanvas';
 import { UIOverlay } from './components/UIOverlay';
-import { MAP_HEIGHT, MAP_WIDTH, TILE_SIZE, PLAYER_COLORS, getRandomName, CAMP_NAMES, KINGDOM_NAMES } from './constants';
-import { BuildingType, UnitType, Lobby, PlayerProfile, MatchLog, ViewState } from './types';
+import { ReplayControls } from './components/ReplayControls';
+import { SpectatorPanel } from './components/SpectatorPanel';
+import { Leaderboard } from './components/Leaderboard';
+import { LobbySettingsPanel } from './components/LobbySettingsPanel';
+import { LobbyRoster } from './components/LobbyRoster';
+import { DiplomacyPanel } from './components/DiplomacyPanel';
+import { ChatPanel } from './components/ChatPanel';
+import { applyStateSync } from './game/StateSync';
+import { LockstepClient } from './game/Lockstep';
+import { ReplayPlayer } from './game/Replay';
+import { MAP_HEIGHT, MAP_WIDTH, TILE_SIZE, SERVER_URL, TEAM_NAMES } from './constants';
+
+const CHAT_HISTORY = 100; // Messages kept on screen
+import { BuildingType, UnitType, Lobby, PlayerProfile, MatchLog, ViewState, GameCommand, GameStateSync, LockstepBatch, SavedGameState, ReplayData, ReplaySummary, Credentials, LobbySettings, MatchRules, ChatChannel, ChatMessage, Formation, UnitOrderType } from './types';
 import './index.css';
 
 const LobbyCountdown = ({ expiresAt, onExpire }: { expiresAt: number, onExpire?: () => void }) => {
@@ -28,6 +39,17 @@ const LobbyCountdown = ({ expiresAt, onExpire }: { expiresAt: number, onExpire?:
     return <>{`${mins < 10 ? '0' : ''}${mins}:${secs < 10 ? '0' : ''}${secs}`}</>;
 };
 
+// Account credentials issued by the server at 'register': used to log back in and to rejoin a match
+const CREDENTIALS_KEY = 'castlefront_credentials';
+
+const loadCredentials = (): Credentials | null => {
+    try {
+        return JSON.parse(localStorage.getItem(CREDENTIALS_KEY) || 'null');
+    } catch {
+        return null;
+    }
+};
+
 // --- MAIN APP CONTENT ---
 const AppContent = ({ engine }: { engine: GameEngine }) => {
     // --- STATE ---
@@ -41,17 +63,34 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
     // Game Client State
     const [selectedBuilding, setSelectedBuilding] = useState<BuildingType | null>(null);
     const [selectedSpawnUnitType, setSelectedSpawnUnitType] = useState<UnitType | null>(null);
-    const [selectedUnitId, setSelectedUnitId] = useState<string | null>(null);
+    const [selectedUnitIds, setSelectedUnitIds] = useState<string[]>([]);
+    const [formation, setFormation] = useState<Formation>('LINE');
+    const [pendingOrder, setPendingOrder] = useState<'ATTACK_MOVE' | 'PATROL' | null>(null); // Issued by the next left click
     const [attackPercentage, setAttackPercentage] = useState<number>(100);
     const [spawnCountdown, setSpawnCountdown] = useState<number>(0);
     const [matchResult, setMatchResult] = useState<MatchLog | null>(null);
     const [gameStateToken, setGameStateToken] = useState<number>(0); // Force re-render
+    const [replays, setReplays] = useState<ReplaySummary[]>([]);
+    const [replayPlayer, setReplayPlayer] = useState<ReplayPlayer | null>(null);
+    const [rating, setRating] = useState<number | null>(null);
+    const [rankedSearch, setRankedSearch] = useState(false);
+    const [lobbyState, setLobbyState] = useState<Lobby | null>(null); // Our lobby, private ones aren't listed
+    const [maps, setMaps] = useState<{ id: string, name: string }[]>([]);
+    const [inviteCode, setInviteCode] = useState('');
+    const [joinError, setJoinError] = useState<string | null>(null);
+    const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+    const [mutedIds, setMutedIds] = useState<string[]>([]);
+    const [chatNotice, setChatNotice] = useState<string | null>(null);
 
     const PLAYER_ID = playerId || playerName; // Use UUID if available!
 
     // Ref for ActiveLobbyId to avoid socket re-init
     const activeLobbyIdRef = useRef<string | null>(null);
     const playerNameRef = useRef<string>('');
+    const viewRef = useRef<ViewState>(ViewState.IDENTITY);
+    const playerIdRef = useRef<string>('');
+    const lockstepRef = useRef<LockstepClient | null>(null); // Set only for LOCKSTEP matches
+    const controlGroupsRef = useRef<Record<number, string[]>>({}); // Ctrl+1..9 -> unit ids
 
     // Sync Ref
     useEffect(() => {
@@ -63,10 +102,25 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
         playerNameRef.current = playerName;
     }, [playerName]);
 
+    // Sync View / Player Id Refs (read from socket handlers)
+    useEffect(() => {
+        viewRef.current = view;
+    }, [view]);
+
+    useEffect(() => {
+        playerIdRef.current = PLAYER_ID;
+    }, [PLAYER_ID]);
+
     const handleExitGame = () => {
         engine.isGameActive = false;
-        setView(ViewState.LOBBY);
+        lockstepRef.current = null;
+        setSelectedUnitIds([]);
+        setPendingOrder(null);
+        controlGroupsRef.current = {};
+        setActiveLobbyId(null);
+        setView(ViewState.MATCHMAKING);
         socketRef.current?.emit('leave_game');
+        socketRef.current?.emit('stop_spectating');
     };
 
     // Socket Ref
@@ -75,42 +129,186 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
     // Initialize Socket
     useEffect(() => {
         // Connect to real server
-        const newSocket = io('http://localhost:3002');
+        const newSocket = io(SERVER_URL);
         socketRef.current = newSocket;
 
         if (newSocket) {
             newSocket.on('connect', () => {
                 // console.log('Connected to Game Server');
-                // Auto-register if we have a name (Reconnection Logic)
-                if (playerNameRef.current) {
+                // Reconnection Logic: try to get back into a running match first,
+                // the server answers 'rejoined' or 'rejoin_failed'
+                const credentials = loadCredentials();
+                if (credentials) {
+                    newSocket.emit('rejoin', credentials);
+                } else if (playerNameRef.current) {
                     // console.log('Auto-registering on reconnect:', playerNameRef.current);
                     newSocket.emit('register', playerNameRef.current);
                 }
             });
 
+            newSocket.on('rejoin_failed', () => {
+                // No seat to return to (or it expired): just log back into the account
+                newSocket.emit('login', loadCredentials());
+            });
+
+            newSocket.on('login_failed', () => {
+                localStorage.removeItem(CREDENTIALS_KEY);
+                if (playerNameRef.current) {
+                    newSocket.emit('register', playerNameRef.current);
+                }
+            });
+
+            newSocket.on('rejoined', (data: { lobby: Lobby, save: SavedGameState }) => {
+                loadRunningMatch(data.lobby, data.save);
+                const me = engine.getPlayer(playerIdRef.current);
+                setView(me && me.ownedTiles.length > 0 ? ViewState.GAME_PLAYING : ViewState.GAME_PLACEMENT);
+            });
+
+            newSocket.on('spectate_start', (data: { lobby: Lobby, save: SavedGameState }) => {
+                loadRunningMatch(data.lobby, data.save);
+                setView(ViewState.SPECTATING);
+            });
+
             newSocket.on('lobbies_update', (list: Lobby[]) => {
                 setLobbies(list);
             });
 
             newSocket.on('lobby_state', (lobby: Lobby) => {
-                // ...
+                setLobbyState(lobby);
+            });
+
+            // Confirmed seat in a lobby (created, joined from the list or by invite code)
+            newSocket.on('lobby_joined', (lobby: Lobby) => {
+                activeLobbyIdRef.current = lobby.id;
+                setActiveLobbyId(lobby.id);
+                setLobbyState(lobby);
+                setJoinError(null);
+                setChatMessages([]);
+                setView(ViewState.LOBBY);
+            });
+
+            newSocket.on('chat_message', (message: ChatMessage) => {
+                setChatMessages(prev => [...prev.slice(-(CHAT_HISTORY - 1)), message]);
+                setChatNotice(null);
+            });
+
+            newSocket.on('chat_rejected', (data: { reason: string, retryInMs: number }) => {
+                setChatNotice(`Your herald is out of breath, wait ${Math.ceil(data.retryInMs / 1000)}s.`);
+            });
+
+            newSocket.on('muted_players', (ids: string[]) => {
+                setMutedIds(ids);
+            });
+
+            newSocket.on('join_failed', (data: { code: string }) => {
+                setJoinError(`No realm answers to the code ${data.code}.`);
+            });
+
+            newSocket.on('maps_list', (list: { id: string, name: string }[]) => {
+                setMaps(list);
             });
 
-            newSocket.on('registered', (player: PlayerProfile) => {
+            newSocket.on('registered', (player: PlayerProfile & { rating: number, credentials: Credentials }) => {
                 // console.log('Registered with Server. ID:', player.id);
+                localStorage.setItem(CREDENTIALS_KEY, JSON.stringify(player.credentials));
+                playerIdRef.current = player.id;
                 setPlayerId(player.id);
+                setRating(player.rating);
+                if (!playerNameRef.current) {
+                    playerNameRef.current = player.name;
+                    setPlayerName(player.name);
+                }
+                // Logged in from stored credentials: skip the name prompt
+                if (viewRef.current === ViewState.IDENTITY) {
+                    setView(ViewState.MATCHMAKING);
+                }
+            });
+
+            newSocket.on('rating_update', (data: { rating: number }) => {
+                setRating(data.rating);
+            });
+
+            newSocket.on('ranked_queue', (data: { queued: boolean, rating?: number }) => {
+                setRankedSearch(data.queued);
+                if (data.rating !== undefined) setRating(data.rating);
             });
 
-            newSocket.on('game_start', (data: { lobby: Lobby, mapData: any }) => {
+            newSocket.on('lobby_cancelled', (data: { lobbyId: string }) => {
+                if (data.lobbyId !== activeLobbyIdRef.current) return;
+                activeLobbyIdRef.current = null;
+                lockstepRef.current = null; // Spectators of a match that stopped
+                setActiveLobbyId(null);
+                setView(ViewState.MATCHMAKING);
+            });
+
+            // The ranked queue put us in a lobby, game_start follows right after
+            newSocket.on('ranked_match_found', (lobby: Lobby) => {
+                activeLobbyIdRef.current = lobby.id;
+                setActiveLobbyId(lobby.id);
+                setView(ViewState.LOBBY);
+            });
+
+            newSocket.on('game_start', (data: { lobby: Lobby, roster: PlayerProfile[], seed: number, rules: MatchRules, mapData: any }) => {
                 // console.log('CLIENT RECEIVED game_start!', data);
                 // Use Ref to check if this is our lobby
                 if (data.lobby.id === activeLobbyIdRef.current) {
                     // console.log('Lobby ID Matches! Starting game...');
-                    startGameFromLobby(data.lobby, data.mapData);
+                    startGameFromLobby(data.lobby, data.roster, data.mapData, data.seed, data.rules);
                 } else {
                     console.warn('Lobby ID Mismatch in game_start:', data.lobby.id, 'vs', activeLobbyIdRef.current);
                 }
             });
+
+            // Authoritative state from the server-hosted engine
+            newSocket.on('game_state', (sync: GameStateSync) => {
+                applyStateSync(engine, sync);
+
+                // Our keep has been placed (by us or by the placement timeout)
+                if (viewRef.current === ViewState.GAME_PLACEMENT) {
+                    const me = engine.getPlayer(playerIdRef.current);
+                    if (me && me.ownedTiles.length > 0) {
+                        setView(ViewState.GAME_PLAYING);
+                    }
+                }
+            });
+
+            newSocket.on('lockstep_tick', (batch: LockstepBatch) => {
+                lockstepRef.current?.receive(batch);
+            });
+
+            newSocket.on('desync', (data: { step: number }) => {
+                console.warn(`Lockstep desync detected at step ${data.step}, resyncing`);
+                newSocket.emit('request_state');
+            });
+
+            // Full save of the server's match (answer to 'request_state')
+            newSocket.on('match_state', (save: SavedGameState) => {
+                engine.deserialize(save);
+                lockstepRef.current?.resync();
+            });
+
+            newSocket.on('game_over', (log: MatchLog | null) => {
+                setMatchResult(log);
+                setView(ViewState.RESULTS);
+            });
+
+            newSocket.on('replays_list', (list: ReplaySummary[]) => {
+                setReplays(list);
+            });
+
+            // Replays are re-simulated locally from the recorded commands
+            newSocket.on('replay_data', (data: { replay: ReplayData, mapData: any }) => {
+                let player: ReplayPlayer;
+                try {
+                    player = new ReplayPlayer(engine, data.replay, data.mapData);
+                } catch (e) {
+                    console.error('Replay Load Failed:', e);
+                    return;
+                }
+                lockstepRef.current = null;
+                setReplayPlayer(player);
+                setView(ViewState.REPLAY);
+            });
         }
 
         return () => {
@@ -124,7 +322,7 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
         e.preventDefault();
         if (playerName.trim().length > 0) {
             localStorage.setItem('castlefront_player_name', playerName.trim());
-            socketRef.current?.emit('register', playerName.trim()); // Register with DB
+            socketRef.current?.emit('register', playerName.trim(), loadCredentials()); // Register with DB
             setView(ViewState.MATCHMAKING);
         }
     };
@@ -146,127 +344,167 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
     }, [socketRef.current]); 
     */
 
+    // Refresh the list of recorded matches whenever we're back at the lobby list
+    useEffect(() => {
+        if (view === ViewState.MATCHMAKING) {
+            socketRef.current?.emit('list_replays');
+        }
+    }, [view]);
+
+    const watchReplay = (replayId: string) => {
+        socketRef.current?.emit('load_replay', replayId);
+    };
+
+    const exitReplay = () => {
+        setReplayPlayer(null);
+        setView(ViewState.MATCHMAKING);
+    };
+
     // --- LOBBY ACTIONS ---
+    // Private lobby: we become its host, the invite code arrives with 'lobby_joined'
     const createLobby = () => {
-        // socketRef.current?.emit('create_lobby', 'Fractal Valley');
-        // Actually user wanted "Found New Kingdom" removed.
-        // But if I strictly removed it, how do we create games?
-        // The server auto-creates them in my previous logic!
-        // The "Found New Kingdom" button was removed from UI, but the logic might still be needed if invalid?
-        // Wait, the SERVER logic I wrote has `socket.on('create_lobby')` but DOES IT AUTO GENERATE?
-        // My previous server code `App.tsx` (fake server) had auto-generation.
-        // My REAL server `server.ts` DOES NOT have auto-generation loop properly implemented yet!
-        // I need to update `server.ts` to auto-generate lobbies if I want that behavior.
-        // OR I can let the client create one if none exist?
-        // The user said "display only games that are actively accepting players".
-        // And "Found New Kingdom" button was removed. 
-        // So the SERVER must be responsible for creating lobbies.
-        // I should stick to Client impl here. Client just joins.
+        socketRef.current?.emit('create_lobby');
+    };
+
+    const joinLobbyByCode = () => {
+        if (!inviteCode.trim()) return;
+        socketRef.current?.emit('join_lobby_code', inviteCode.trim());
+    };
+
+    const updateLobbySettings = (settings: Partial<LobbySettings>) => {
+        socketRef.current?.emit('update_lobby_settings', settings);
+    };
+
+    const chooseTeam = (teamId: number) => {
+        socketRef.current?.emit('choose_team', teamId);
+    };
+
+    const sendChat = (channel: ChatChannel, text: string) => {
+        socketRef.current?.emit('chat_send', { channel, text });
+    };
+
+    const toggleMute = (id: string, muted: boolean) => {
+        socketRef.current?.emit('mute_player', { playerId: id, muted });
     };
 
+    // The host's map picker
+    useEffect(() => {
+        if (view === ViewState.LOBBY) {
+            socketRef.current?.emit('list_maps');
+        }
+    }, [view]);
+
     const joinLobby = (lobbyId: string) => {
         socketRef.current?.emit('join_lobby', lobbyId);
         setActiveLobbyId(lobbyId);
         setView(ViewState.LOBBY);
     };
 
-    const startGameFromLobby = (lobby: Lobby, mapData?: any) => {
-        if (!engine) return;
-
-        // Re-init engine with players
-        // console.log("Starting match with map:", mapData?.name || "Procedural");
+    // Picks up a match that is already running (rejoin, spectate) from the server's full save
+    const loadRunningMatch = (lobby: Lobby, save: SavedGameState) => {
+        activeLobbyIdRef.current = lobby.id;
+        setActiveLobbyId(lobby.id);
 
-        // Add Bots
-        const roster = [...lobby.players];
-        // Add 30 Camps
-        for (let i = 0; i < 30; i++) {
-            roster.push({
-                id: `CAMP_${i} `,
-                name: getRandomName(CAMP_NAMES),
-                isAI: true,
-                aiType: 'CAMP' as any,
-                color: '#57534e'
+        engine.deserialize(save);
+        if (lobby.netMode === 'LOCKSTEP') {
+            lockstepRef.current = new LockstepClient(engine, (step, checksum) => {
+                socketRef.current?.emit('lockstep_checksum', { step, checksum });
             });
+        } else {
+            lockstepRef.current = null;
         }
-        // Add Kingdoms
-        const kingdomsNeeded = Math.min(8, lobby.maxPlayers - roster.length);
-        for (let i = 0; i < kingdomsNeeded; i++) {
-            roster.push({
-                id: `KINGDOM_${i} `,
-                name: KINGDOM_NAMES[i % KINGDOM_NAMES.length],
-                isAI: true,
-                aiType: 'KINGDOM' as any,
-                color: PLAYER_COLORS[(roster.length) % PLAYER_COLORS.length]
+    };
+
+    const toggleRankedSearch = () => {
+        socketRef.current?.emit(rankedSearch ? 'leave_ranked_queue' : 'queue_ranked');
+    };
+
+    const spectateLobby = (lobbyId: string) => {
+        socketRef.current?.emit('spectate_lobby', lobbyId);
+    };
+
+    const stopSpectating = () => {
+        socketRef.current?.emit('stop_spectating');
+        lockstepRef.current = null;
+        setActiveLobbyId(null);
+        setView(ViewState.MATCHMAKING);
+    };
+
+    const startGameFromLobby = (lobby: Lobby, roster: PlayerProfile[], mapData: any, seed: number, rules: MatchRules) => {
+        if (!engine) return;
+
+        // console.log("Starting match with map:", mapData?.name || "Procedural");
+        setSelectedUnitIds([]);
+        setPendingOrder(null);
+        controlGroupsRef.current = {};
+        if (lobby.netMode === 'LOCKSTEP') {
+            // Same roster + terrain + seed + rules as the server, then replay its command batches
+            engine.init(roster, mapData, seed, rules);
+            lockstepRef.current = new LockstepClient(engine, (step, checksum) => {
+                socketRef.current?.emit('lockstep_checksum', { step, checksum });
             });
+        } else {
+            // The server simulates the match; we only mirror its map and roster
+            engine.initClient(roster, mapData, rules);
+            lockstepRef.current = null;
         }
-
-        engine.init(roster, mapData);
         setSpawnCountdown(20);
         setView(ViewState.GAME_PLACEMENT);
     };
 
+    // All gameplay mutations go through the server
+    const sendCommand = (cmd: GameCommand) => {
+        socketRef.current?.emit('game_command', cmd);
+    };
+
     // ... Gameplay Loop with SNAPSHOT ...
-    // 2. GAME PLAYING LOOP (LOGIC ONLY)
-    // 2. GAME PLAYING LOOP (LOGIC ONLY)
+    // 2. GAME LOOP
+    // AUTHORITATIVE: the engine is ticked by the server (see 'game_state'), the client only renders it.
+    // LOCKSTEP: we step the engine ourselves as command batches arrive.
     useEffect(() => {
-        if (view === ViewState.GAME_PLAYING) {
-            let lastTime = performance.now();
-            let animationId: number;
-
-            const loop = (currentTime: number) => {
-                const dt = currentTime - lastTime;
-                lastTime = currentTime;
-
-                // Capped dt to prevent spiral of death if tab is backgrounded
-                // Max 100ms per frame
-                engine.update(Math.min(dt, 100));
-
-                // Auto-Save Snapshot (Check every tick, but save on interval check inside logic?)
-                // Or keep logic separate. 
-                // Engine.tickCount only updates inside updateLogicTick (every 100ms acc).
-                // So checking tickCount % X is still valid logic-wise.
-                if (engine.tickCount % 100 === 0 && activeLobbyId && engine.timeAccumulator < 10) { // Slight hack to avoid multi-emit in same logic tick frame
-                    // Actully, tickCount increments only once per 100ms logic tick.
-                    // But rendering frames run 6 times per logic tick.
-                    // To prevent saving 6 times, we need a flag or just rely on tick changing.
-                    // Better: Engine sets a flag "justTicked"? 
-                    // Or we just accept that we might emit a few times or throttle this.
-                    // Simply throttling by time is safer here.
-                }
-
-                if (engine.isGameOver) {
-                    setMatchResult(engine.getMatchLog());
-                    setView(ViewState.RESULTS);
+        if (view !== ViewState.GAME_PLACEMENT && view !== ViewState.GAME_PLAYING && view !== ViewState.SPECTATING) return;
+        const lockstep = lockstepRef.current;
+        if (!lockstep) return;
+
+        let lastTime = performance.now();
+        let animationId: number;
+
+        const loop = (currentTime: number) => {
+            const dt = currentTime - lastTime;
+            lastTime = currentTime;
+            lockstep.update(dt);
+
+            if (view === ViewState.GAME_PLACEMENT) {
+                const me = engine.getPlayer(PLAYER_ID);
+                if (me && me.ownedTiles.length > 0) {
+                    setView(ViewState.GAME_PLAYING);
                     return;
                 }
-
-                animationId = requestAnimationFrame(loop);
-            };
+            }
 
             animationId = requestAnimationFrame(loop);
+        };
 
-            // Separate Interval for Networking / Auto-Save if preferred, 
-            // but sticking to loop is fine if we are careful.
-            // Let's restore the Auto-Save as a simple interval to avoid cluttering the RAF loop.
-            const saveInterval = setInterval(() => {
-                if (activeLobbyId) {
-                    const snapshot = {
-                        players: engine.players.map(p => ({ id: p.id, pop: p.population, mil: p.militaryPopulation })),
-                    };
-                    socketRef.current?.emit('save_snapshot', {
-                        lobbyId: activeLobbyId,
-                        tick: engine.tickCount,
-                        state: snapshot
-                    });
-                }
-            }, 10000); // Save every 10s
+        animationId = requestAnimationFrame(loop);
+        return () => cancelAnimationFrame(animationId);
+    }, [view, engine, PLAYER_ID]);
 
-            return () => {
-                cancelAnimationFrame(animationId);
-                clearInterval(saveInterval);
-            };
-        }
-    }, [view, engine, activeLobbyId]);
+    // REPLAY: the ReplayPlayer re-simulates the recorded match on our engine
+    useEffect(() => {
+        if (view !== ViewState.REPLAY || !replayPlayer) return;
+
+        let lastTime = performance.now();
+        let animationId: number;
+
+        const loop = (currentTime: number) => {
+            replayPlayer.update(currentTime - lastTime);
+            lastTime = currentTime;
+            animationId = requestAnimationFrame(loop);
+        };
+
+        animationId = requestAnimationFrame(loop);
+        return () => cancelAnimationFrame(animationId);
+    }, [view, replayPlayer]);
 
     // ... (skipping to render) ...
 
@@ -285,27 +523,104 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
         //  PRIORITY 3: Normal Tile Select
 
         // So this function is ONLY called if we are NOT building or selecting a unit.
-        // Thus, this is the "Expansion/Attack" click.
+        // Thus, this is the "Expansion/Attack" click, or the march order of the selected units.
+        if (orderSelected(pendingOrder ?? 'MOVE', x, y, false)) {
+            setPendingOrder(null);
+            return;
+        }
 
-        engine.distributeExpansion(PLAYER_ID, x, y, attackPercentage);
+        sendCommand({ type: 'EXPAND', playerId: PLAYER_ID, x, y, percentage: attackPercentage });
         setGameStateToken(prev => prev + 1);
     };
 
     const handlePlaceBuilding = (x: number, y: number) => {
         if (selectedBuilding) {
-            engine.placeBuilding(PLAYER_ID, selectedBuilding, x, y);
+            sendCommand({ type: 'BUILD', playerId: PLAYER_ID, buildingType: selectedBuilding, x, y });
             setSelectedBuilding(null); // Clear selection after placing
             setGameStateToken(prev => prev + 1);
         }
     };
 
-    const handleUnitSelect = (unitId: string | null) => {
-        setSelectedUnitId(unitId);
+    // Our selected units that are still alive
+    const liveUnitIds = (ids: string[]) => {
+        const alive = new Set(engine.getPlayer(PLAYER_ID)?.units.map(u => u.id) ?? []);
+        return ids.filter(id => alive.has(id));
+    };
+
+    const handleUnitsSelect = (unitIds: string[], additive: boolean) => {
+        setSelectedUnitIds(prev => additive ? [...new Set([...prev, ...unitIds])] : unitIds);
+    };
+
+    // Sends an order to the selected units, false if none is left
+    const orderSelected = (order: UnitOrderType, x: number, y: number, queue: boolean) => {
+        const selected = liveUnitIds(selectedUnitIds);
+        if (selected.length === 0) return false;
+        sendCommand({ type: 'ORDER_UNITS', playerId: PLAYER_ID, unitIds: selected, order, x, y, formation, queue });
+        return true;
     };
 
+    // Right click: board our boat under the cursor, attack the enemy there, land the troops aboard, or march there
+    const handleOrderAt = (x: number, y: number, queue: boolean) => {
+        setPendingOrder(null);
+        const ids = new Set(selectedUnitIds);
+        const selected = engine.getPlayer(PLAYER_ID)?.units.filter(u => ids.has(u.id)) ?? [];
+        let order: UnitOrderType = 'MOVE';
+        if (engine.findBoatAt(PLAYER_ID, x, y) && selected.some(u => u.type !== UnitType.BOAT)) order = 'EMBARK';
+        else if (engine.findAttackTarget(PLAYER_ID, x, y)) order = 'ATTACK';
+        else if (engine.isValid(x, y) && engine.tiles[y][x].type === 'LAND' && selected.some(u => u.cargo?.length)) order = 'UNLOAD';
+        orderSelected(order, x, y, queue);
+    };
+
+    // Warband panel: attack-move and patrol wait for the click on the land
+    const handleOrderButton = (order: UnitOrderType) => {
+        if (order === 'ATTACK_MOVE' || order === 'PATROL') {
+            setPendingOrder(order);
+        } else {
+            orderSelected(order, 0, 0, false);
+            setPendingOrder(null);
+        }
+    };
+
+    // Control groups: Ctrl+1..9 musters the selection, 1..9 recalls it (Shift adds it), Escape deselects.
+    // Orders: A attack-move and P patrol (then click the spot), S stop, H hold position.
+    useEffect(() => {
+        if (view !== ViewState.GAME_PLAYING) return;
+
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return; // Typing in chat
+            if (e.key === 'Escape') {
+                if (pendingOrder) setPendingOrder(null);
+                else setSelectedUnitIds([]);
+                return;
+            }
+            if (!e.ctrlKey && !e.metaKey && !e.altKey && liveUnitIds(selectedUnitIds).length > 0) {
+                if (e.code === 'KeyA') setPendingOrder('ATTACK_MOVE');
+                if (e.code === 'KeyP') setPendingOrder('PATROL');
+                if (e.code === 'KeyS' || e.code === 'KeyH') {
+                    orderSelected(e.code === 'KeyS' ? 'STOP' : 'HOLD', 0, 0, e.shiftKey);
+                    setPendingOrder(null);
+                }
+            }
+
+            const digit = /^Digit([1-9])$/.exec(e.code);
+            if (!digit) return;
+            const group = Number(digit[1]);
+            if (e.ctrlKey || e.metaKey) {
+                e.preventDefault();
+                controlGroupsRef.current[group] = liveUnitIds(selectedUnitIds);
+            } else {
+                const members = liveUnitIds(controlGroupsRef.current[group] ?? []);
+                controlGroupsRef.current[group] = members;
+                handleUnitsSelect(members, e.shiftKey);
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [view, selectedUnitIds, pendingOrder, formation, PLAYER_ID]);
+
     const handleSpawnUnitAt = (x: number, y: number) => {
         if (selectedSpawnUnitType) {
-            engine.spawnUnit(PLAYER_ID, selectedSpawnUnitType, x, y);
+            sendCommand({ type: 'SPAWN_UNIT', playerId: PLAYER_ID, unitType: selectedSpawnUnitType, x, y });
             setSelectedSpawnUnitType(null); // Clear selection after spawning
             setGameStateToken(prev => prev + 1);
         }
@@ -322,7 +637,10 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
     };
 
     const currentPlayer = engine.getPlayer(PLAYER_ID);
-    const gameResult = matchResult?.winnerId === PLAYER_ID ? 'VICTORY' : 'DEFEAT';
+    // Spectators have no Player in the match
+    const wonMatch = matchResult?.winnerId === PLAYER_ID
+        || (matchResult?.winningTeamId != null && currentPlayer?.teamId === matchResult.winningTeamId);
+    const gameResult = !currentPlayer ? 'ENDED' : wonMatch ? 'VICTORY' : 'DEFEAT';
 
     // --- COMPONENT RENDER ---
 
@@ -380,6 +698,11 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
         );
     }
 
+    // 2B. LEADERBOARD (Reached from the lobby list)
+    if (view === ViewState.LEADERBOARD) {
+        return <Leaderboard playerId={playerId} onExit={() => setView(ViewState.MATCHMAKING)} />;
+    }
+
     // 2. MATCHMAKING VIEW (LOBBY LIST)
     if (view === ViewState.MATCHMAKING) {
         return (
@@ -399,18 +722,111 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
                             <div className="text-2xl text-amber-100 font-display font-bold">{playerName}</div>
                         </div>
                     </div>
-                    <div className="flex gap-4">
+                    <div className="flex gap-4 items-center">
                         <div className="px-4 py-1 rounded bg-amber-900/20 border border-amber-600/30 text-amber-500 text-xs font-serif italic flex items-center gap-2">
                             <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse shadow-[0_0_10px_rgba(34,197,94,0.5)]"></div>
-                            Scouting nearby lands...
+                            {rankedSearch ? 'Seeking worthy rivals...' : 'Scouting nearby lands...'}
                         </div>
+                        <button
+                            onClick={() => setView(ViewState.LEADERBOARD)}
+                            className="px-4 py-2 bg-amber-900/30 hover:bg-amber-800/50 text-amber-200 rounded text-sm font-bold border border-amber-700/40 font-display tracking-wider"
+                        >
+                            HALL OF LORDS
+                        </button>
+                        {rating !== null && (
+                            <div className="text-right">
+                                <div className="text-[10px] text-stone-500 uppercase font-bold tracking-widest">Renown</div>
+                                <div className="text-xl text-amber-400 font-display font-bold tabular-nums">{rating}</div>
+                            </div>
+                        )}
+                        <button
+                            onClick={toggleRankedSearch}
+                            className={`px-6 py-2 rounded text-sm font-bold border font-display tracking-wider transition-all ${rankedSearch
+                                ? 'bg-stone-800 hover:bg-stone-700 text-stone-300 border-stone-600'
+                                : 'bg-red-900/80 hover:bg-red-800 text-red-100 border-red-700 shadow-[0_4px_14px_rgba(127,29,29,0.4)]'}`}
+                        >
+                            {rankedSearch ? 'CANCEL SEARCH' : 'RANKED WAR'}
+                        </button>
                     </div>
                 </div>
 
+                {/* Battles in Progress (Spectate) */}
+                {lobbies.some(l => l.status === 'IN_PROGRESS') && (
+                    <div className="w-full max-w-5xl px-4 mb-6">
+                        <h3 className="text-sm font-bold text-stone-500 uppercase tracking-widest mb-3 border-b border-stone-800 pb-2">Battles Raging</h3>
+                        <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-2">
+                            {lobbies.filter(l => l.status === 'IN_PROGRESS').map(lobby => (
+                                <div key={lobby.id} className="min-w-[200px] bg-[#1c1917] border border-red-900/30 rounded p-3 flex flex-col gap-1">
+                                    <div className="text-[10px] text-red-500 font-bold tracking-widest uppercase">PROVINCE {lobby.id}</div>
+                                    <div className="text-amber-100 font-display font-bold">{lobby.mapName}</div>
+                                    <div className="text-xs text-stone-500 font-serif italic mb-2">
+                                        {lobby.players.length} lords, {lobby.spectatorCount} watching
+                                    </div>
+                                    <button
+                                        onClick={() => spectateLobby(lobby.id)}
+                                        className="mt-auto py-1 bg-red-900/20 hover:bg-red-900/40 text-red-200 rounded text-xs font-bold border border-red-800/40 font-display tracking-wider"
+                                    >
+                                        WATCH
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Chronicles (Recorded Matches) */}
+                {replays.length > 0 && (
+                    <div className="w-full max-w-5xl px-4 mb-6">
+                        <h3 className="text-sm font-bold text-stone-500 uppercase tracking-widest mb-3 border-b border-stone-800 pb-2">Chronicles</h3>
+                        <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-2">
+                            {replays.map(replay => (
+                                <div key={replay.id} className="min-w-[200px] bg-[#1c1917] border border-amber-900/20 rounded p-3 flex flex-col gap-1">
+                                    <div className="text-[10px] text-amber-600 font-bold tracking-widest uppercase">PROVINCE {replay.id}</div>
+                                    <div className="text-amber-100 font-display font-bold">{replay.mapName}</div>
+                                    <div className="text-xs text-stone-500 font-serif italic mb-2">
+                                        {replay.winnerName ? `Won by ${replay.winnerName}` : 'Unfinished'}
+                                    </div>
+                                    <button
+                                        onClick={() => watchReplay(replay.id)}
+                                        className="mt-auto py-1 bg-amber-900/30 hover:bg-amber-800/50 text-amber-200 rounded text-xs font-bold border border-amber-700/40 font-display tracking-wider"
+                                    >
+                                        WATCH
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Private Realms */}
+                <div className="w-full max-w-5xl px-4 mb-6 flex flex-wrap items-center gap-3">
+                    <button
+                        onClick={createLobby}
+                        className="px-6 py-2 bg-amber-700 hover:bg-amber-600 text-white rounded text-sm font-bold border border-amber-500 font-display tracking-wider"
+                    >
+                        FOUND PRIVATE REALM
+                    </button>
+                    <input
+                        value={inviteCode}
+                        onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => e.key === 'Enter' && joinLobbyByCode()}
+                        placeholder="INVITE CODE"
+                        maxLength={6}
+                        className="w-36 bg-stone-900 border border-stone-700 rounded px-3 py-2 text-amber-100 font-mono tracking-[0.3em] text-sm focus:border-amber-600 outline-none"
+                    />
+                    <button
+                        onClick={joinLobbyByCode}
+                        className="px-4 py-2 bg-stone-800 hover:bg-stone-700 text-stone-200 rounded text-sm font-bold border border-stone-600 font-display tracking-wider"
+                    >
+                        ANSWER THE CALL
+                    </button>
+                    {joinError && <span className="text-xs text-red-400 font-serif italic">{joinError}</span>}
+                </div>
+
                 {/* Lobby Grid */}
                 <div className="w-full max-w-5xl grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 px-4 pb-20 overflow-y-auto custom-scrollbar h-full">
                     {/* Lobby Cards */}
-                    {lobbies.filter(l => l.status === 'WAITING').map(lobby => {
+                    {lobbies.filter(l => l.status === 'WAITING' && !l.ranked).map(lobby => {
                         const timeLeft = Math.max(0, Math.ceil((lobby.expiresAt - Date.now()) / 1000));
                         return (
                             <div key={lobby.id} className="glass-panel p-6 rounded-lg relative group hover:translate-y-[-3px] transition-all duration-300 bg-[#1c1917] border-2 border-amber-900/20 hover:border-amber-500/50">
@@ -466,7 +882,7 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
 
     // 3. LOBBY VIEW (WAITING ROOM)
     if (view === ViewState.LOBBY) {
-        const currentLobby = lobbies.find(l => l.id === activeLobbyId);
+        const currentLobby = lobbyState?.id === activeLobbyId ? lobbyState : lobbies.find(l => l.id === activeLobbyId);
         if (!currentLobby) return null;
 
         const timeLeft = Math.max(0, Math.ceil((currentLobby.expiresAt - Date.now()) / 1000));
@@ -485,12 +901,19 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
                     <div className="flex justify-between items-center mb-8 border-b border-amber-900/30 pb-6">
                         <div>
                             <h2 className="text-4xl font-black text-amber-100 font-display mb-1 drop-shadow-lg">WAR ROOM</h2>
-                            <p className="text-amber-700 text-sm tracking-[0.2em] font-serif uppercase">Province: {activeLobbyId} // The Highlands</p>
+                            <p className="text-amber-700 text-sm tracking-[0.2em] font-serif uppercase">Province: {activeLobbyId} // {currentLobby.mapName}</p>
+                            {currentLobby.inviteCode && (
+                                <p className="text-sm text-stone-400 font-serif mt-1">
+                                    Invite code: <span className="font-mono font-bold text-amber-400 tracking-[0.3em] select-all">{currentLobby.inviteCode}</span>
+                                </p>
+                            )}
                             <p className="text-xs text-stone-600">DEBUG: Host={currentLobby.hostId} | Me={PLAYER_ID} | Match={currentLobby.hostId === PLAYER_ID ? 'YES' : 'NO'}</p>
                         </div>
                         <div className="text-right">
                             <div className="text-[10px] text-stone-500 uppercase font-bold mb-1">State</div>
-                            <div className="text-2xl font-serif text-green-500 italic">Gathering Armies...</div>
+                            {currentLobby.status === 'STARTING'
+                                ? <div className="text-2xl font-serif text-red-500 italic">Marching to War!</div>
+                                : <div className="text-2xl font-serif text-green-500 italic">Gathering Armies...</div>}
                         </div>
                     </div>
 
@@ -498,26 +921,42 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
                         {/* Player List */}
                         <div className="space-y-4">
                             <h3 className="text-sm font-bold text-stone-500 uppercase tracking-widest mb-4 border-b border-stone-800 pb-2">Noble Lords</h3>
-                            <div className="flex items-center gap-4 bg-[#292524] p-4 rounded border border-amber-900/20 hover:border-amber-700/50 transition-colors shadow-inner">
-                                <div className="w-12 h-12 bg-amber-800 rounded flex items-center justify-center font-bold text-xl text-amber-100 shadow-md border border-amber-600/30 font-display">
-                                    {playerName.charAt(0)}
-                                </div>
-                                <div>
-                                    <div className="font-bold text-amber-100 font-display text-lg tracking-wide">{playerName}</div>
-                                    <div className="text-xs text-amber-600 font-serif italic">Human Lord</div>
-                                </div>
-                            </div>
+                            <LobbyRoster lobby={currentLobby} playerId={playerId} onChooseTeam={chooseTeam} />
+
+                            <LobbySettingsPanel
+                                lobby={currentLobby}
+                                maps={maps}
+                                isHost={currentLobby.hostId === playerId}
+                                onChange={updateLobbySettings}
+                            />
                         </div>
 
                         {/* Launch Controls */}
                         <div className="flex flex-col justify-end items-center bg-black/20 rounded p-6 border border-amber-900/20">
                             <div className="mb-auto w-full text-center py-8">
-                                <div className="text-6xl font-black text-stone-800 font-display tracking-tighter drop-shadow-sm">
-                                    <LobbyCountdown expiresAt={currentLobby.expiresAt} />
-                                </div>
-                                <div className="text-xs text-stone-600 font-serif italic mt-2">BATTLE COMMENCES IN...</div>
+                                {currentLobby.inviteCode && currentLobby.status === 'WAITING' ? (
+                                    <div className="text-2xl text-stone-600 font-serif italic">Awaiting the host's horn...</div>
+                                ) : (
+                                    <>
+                                        <div className="text-6xl font-black text-stone-800 font-display tracking-tighter drop-shadow-sm">
+                                            <LobbyCountdown expiresAt={currentLobby.expiresAt} />
+                                        </div>
+                                        <div className="text-xs text-stone-600 font-serif italic mt-2">BATTLE COMMENCES IN...</div>
+                                    </>
+                                )}
                             </div>
 
+                            <ChatPanel
+                                messages={chatMessages}
+                                channels={currentLobby.rules.teams > 0 ? ['LOBBY', 'TEAM'] : ['LOBBY']}
+                                playerId={PLAYER_ID}
+                                mutedIds={mutedIds}
+                                notice={chatNotice}
+                                onSend={sendChat}
+                                onToggleMute={toggleMute}
+                                className="w-full h-48 mb-4"
+                            />
+
                             <div className="w-full space-y-3">
                                 <button
                                     onClick={() => {
@@ -530,7 +969,11 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
                                 </button>
 
                                 <button
-                                    onClick={() => setView(ViewState.MATCHMAKING)}
+                                    onClick={() => {
+                                        socketRef.current?.emit('leave_lobby');
+                                        setActiveLobbyId(null);
+                                        setView(ViewState.MATCHMAKING);
+                                    }}
                                     className="w-full py-3 bg-red-900/10 hover:bg-red-900/20 text-red-800 rounded border border-red-900/20 transition-colors text-sm font-bold font-serif uppercase tracking-widest"
                                 >
                                     Retreat
@@ -552,16 +995,15 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
                     playerId={PLAYER_ID}
                     selectedBuildingType={null}
                     selectedSpawnUnitType={null}
-                    selectedUnitId={selectedUnitId}
+                    selectedUnitIds={[]}
                     onPlaceBuilding={() => { }}
                     onSpawnUnitAt={() => { }}
-                    onSelectUnit={handleUnitSelect}
+                    onSelectUnits={() => { }}
+                    onOrderAt={() => { }}
                     onSelectTile={(x: number, y: number) => {
-                        if (engine.spawnHumanBase(PLAYER_ID, x, y)) {
-                            engine.startMatch();
-
-                            setGameStateToken(uuidv4()); // Force re-render
-                            setView(ViewState.GAME_PLAYING);
+                        // Server validates the spot; we switch to GAME_PLAYING once our keep shows up in game_state
+                        if (engine.isValidSpawn(x, y)) {
+                            sendCommand({ type: 'SPAWN_BASE', playerId: PLAYER_ID, x, y });
                         }
                     }}
                 />
@@ -579,14 +1021,15 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
             <div className="w-full h-screen bg-black relative overflow-hidden">
                 <GameCanvas
                     engine={engine}
-                    width={MAP_WIDTH * TILE_SIZE}
-                    height={MAP_HEIGHT * TILE_SIZE}
-                    tileSize={TILE_SIZE}
-                    currentPlayerId={PLAYER_ID}
+                    playerId={PLAYER_ID}
                     selectedBuildingType={selectedBuilding}
+                    selectedSpawnUnitType={selectedSpawnUnitType}
+                    selectedUnitIds={selectedUnitIds}
                     onSelectTile={handleTileSelect}
                     onPlaceBuilding={handlePlaceBuilding}
                     onSpawnUnitAt={handleSpawnUnitAt}
+                    onSelectUnits={handleUnitsSelect}
+                    onOrderAt={handleOrderAt}
                 />
                 <UIOverlay
                     engine={engine}
@@ -594,11 +1037,22 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
                     selectedBuilding={selectedBuilding}
                     onBuildSelect={handleBuildSelect}
                     selectedSpawnUnitType={selectedSpawnUnitType}
-                    onUnitSpawnToggle={handleUnitSpawnToggle}
+                    onUnitSpawn={handleUnitSpawnToggle}
+                    selectedUnitCount={liveUnitIds(selectedUnitIds).length}
+                    formation={formation}
+                    onFormationChange={setFormation}
+                    pendingOrder={pendingOrder}
+                    onOrder={handleOrderButton}
                     attackPercentage={attackPercentage}
                     setAttackPercentage={setAttackPercentage}
                     onExit={handleExitGame}
+                    chatMessages={chatMessages}
+                    mutedIds={mutedIds}
+                    chatNotice={chatNotice}
+                    onSendChat={sendChat}
+                    onToggleMute={toggleMute}
                 />
+                <DiplomacyPanel engine={engine} playerId={PLAYER_ID} sendCommand={sendCommand} />
             </div>
         );
     }
@@ -611,10 +1065,12 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
 
                 <div className="glass-panel p-16 rounded-lg text-center z-10 max-w-lg w-full border-medieval shadow-2xl transform scale-100 bg-[#1c1917]">
                     <h1 className={`text - 6xl font - black font - display mb - 4 tracking - tight drop - shadow - xl ${gameResult === 'VICTORY' ? 'text-amber-400' : 'text-stone-500'} `}>
-                        {gameResult === 'VICTORY' ? 'VICTORY' : 'DEFEAT'}
+                        {gameResult === 'ENDED' ? 'WAR OVER' : gameResult === 'VICTORY' ? 'VICTORY' : 'DEFEAT'}
                     </h1>
                     <p className="text-stone-400 font-serif italic text-lg mb-10">
-                        {gameResult === 'VICTORY' ? 'Your Kingdom Conquered!' : 'Your reign has ended.'}
+                        {gameResult === 'ENDED'
+                            ? `${matchResult?.winningTeamId ? TEAM_NAMES[matchResult.winningTeamId - 1] : matchResult?.winnerName || 'No one'} prevails.`
+                            : gameResult === 'VICTORY' ? 'Your Kingdom Conquered!' : 'Your reign has ended.'}
                     </p>
 
                     <div className="grid grid-cols-2 gap-4 mb-10">
@@ -628,6 +1084,19 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
                         </div>
                     </div>
 
+                    {matchResult?.seed !== undefined && (
+                        <div className="text-[10px] text-stone-600 font-mono mb-4">SEED {matchResult.seed}</div>
+                    )}
+
+                    {activeLobbyId && (
+                        <button
+                            onClick={() => watchReplay(activeLobbyId)}
+                            className="w-full py-3 mb-3 bg-amber-900/20 hover:bg-amber-900/40 text-amber-200 rounded border border-amber-700/40 transition-colors font-display tracking-widest uppercase"
+                        >
+                            Watch Replay
+                        </button>
+                    )}
+
                     <button
                         onClick={handleExitGame}
                         className="w-full py-4 bg-stone-200 text-stone-900 font-bold rounded hover:bg-white transition-colors font-display text-xl tracking-widest shadow-lg border border-stone-400"
@@ -639,6 +1108,48 @@ const AppContent = ({ engine }: { engine: GameEngine }) => {
         );
     }
 
+    // 6B. SPECTATING
+    if (view === ViewState.SPECTATING && activeLobbyId) {
+        return (
+            <div className="w-full h-screen bg-black relative overflow-hidden">
+                <GameCanvas
+                    engine={engine}
+                    playerId=""
+                    selectedBuildingType={null}
+                    selectedSpawnUnitType={null}
+                    selectedUnitIds={[]}
+                    onPlaceBuilding={() => { }}
+                    onSpawnUnitAt={() => { }}
+                    onSelectUnits={() => { }}
+                    onOrderAt={() => { }}
+                    onSelectTile={() => { }}
+                />
+                <SpectatorPanel engine={engine} lobbyId={activeLobbyId} onExit={stopSpectating} />
+            </div>
+        );
+    }
+
+    // 7. REPLAY
+    if (view === ViewState.REPLAY && replayPlayer) {
+        return (
+            <div className="w-full h-screen bg-black relative overflow-hidden">
+                <GameCanvas
+                    engine={engine}
+                    playerId=""
+                    selectedBuildingType={null}
+                    selectedSpawnUnitType={null}
+                    selectedUnitIds={[]}
+                    onPlaceBuilding={() => { }}
+                    onSpawnUnitAt={() => { }}
+                    onSelectUnits={() => { }}
+                    onOrderAt={() => { }}
+                    onSelectTile={() => { }}
+                />
+                <ReplayControls player={replayPlayer} onExit={exitReplay} />
+            </div>
+        );
+    }
+
     return null;
 };
 
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ChatChannel, ChatMessage } from '../types';
+import { CHAT_MAX_LENGTH } from '../constants';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  channels: ChatChannel[]; // Channels we can write to, the first one is the default
+  playerId: string;
+  mutedIds: string[];
+  notice: string | null; // e.g. the rate limit, shown above the input
+  onSend: (channel: ChatChannel, text: string) => void;
+  onToggleMute: (playerId: string, muted: boolean) => void;
+  className?: string;
+}
+
+const CHANNEL_LABELS: Record<ChatChannel, string> = { LOBBY: 'Hall', ALL: 'All', TEAM: 'Allies' };
+const CHANNEL_COLORS: Record<ChatChannel, string> = { LOBBY: 'text-stone-400', ALL: 'text-stone-400', TEAM: 'text-sky-400' };
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, channels, playerId, mutedIds, notice, onSend, onToggleMute, className = '' }) => {
+  const [draft, setDraft] = useState('');
+  const [channel, setChannel] = useState<ChatChannel>(channels[0]);
+  const listRef = React.useRef<HTMLDivElement>(null);
+
+  // The lobby turns into a match: fall back to a channel that still exists
+  const activeChannel = channels.includes(channel) ? channel : channels[0];
+
+  React.useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+    onSend(activeChannel, text);
+    setDraft('');
+  };
+
+  return (
+    <div className={`flex flex-col bg-[#1c1917]/90 backdrop-blur-md rounded-lg border border-amber-900/40 shadow-lg ${className}`}>
+      <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar px-3 py-2 space-y-0.5 text-sm min-h-0">
+        {messages.length === 0 && <div className="text-xs text-stone-600 font-serif italic">The halls are quiet.</div>}
+        {messages.map(m => (
+          <div key={m.id} className="group flex gap-1.5 items-baseline">
+            <span className={`text-[10px] uppercase font-bold ${CHANNEL_COLORS[m.channel]}`}>[{CHANNEL_LABELS[m.channel]}]</span>
+            <span className="font-bold shrink-0" style={{ color: m.color }}>{m.fromName}:</span>
+            <span className="text-amber-50 break-words min-w-0">{m.text}</span>
+            {m.fromId !== playerId && (
+              <button
+                onClick={() => onToggleMute(m.fromId, true)}
+                className="ml-auto hidden group-hover:inline text-[10px] text-stone-500 hover:text-red-400 uppercase font-bold"
+                title="Mute this lord"
+              >
+                Mute
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {mutedIds.length > 0 && (
+        <div className="px-3 py-1 border-t border-stone-800 text-[10px] text-stone-500 flex flex-wrap gap-x-2">
+          <span className="uppercase font-bold">Muted:</span>
+          {mutedIds.map(id => (
+            <button key={id} onClick={() => onToggleMute(id, false)} className="hover:text-amber-300" title="Unmute">
+              {messages.find(m => m.fromId === id)?.fromName ?? id.slice(0, 8)} ✕
+            </button>
+          ))}
+        </div>
+      )}
+      {notice && <div className="px-3 py-1 text-[10px] text-red-400 font-serif italic">{notice}</div>}
+
+      <form onSubmit={submit} className="flex gap-1 p-2 border-t border-amber-900/30">
+        {channels.length > 1 && (
+          <select
+            value={activeChannel}
+            onChange={(e) => setChannel(e.target.value as ChatChannel)}
+            className="bg-stone-900 border border-stone-700 rounded px-1 text-xs text-amber-100 outline-none"
+          >
+            {channels.map(c => <option key={c} value={c}>{CHANNEL_LABELS[c]}</option>)}
+          </select>
+        )}
+        <input
+          value={draft}
+          maxLength={CHAT_MAX_LENGTH}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Send word..."
+          className="flex-1 min-w-0 bg-stone-900 border border-stone-700 rounded px-2 py-1 text-sm text-amber-100 focus:border-amber-600 outline-none"
+        />
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { GameEngine } from '../game/GameEngine';
+import { AIType, GameCommand, Player, Relation } from '../types';
+import { GAME_TICK_RATE } from '../constants';
+
+interface DiplomacyPanelProps {
+  engine: GameEngine;
+  playerId: string;
+  sendCommand: (cmd: GameCommand) => void;
+}
+
+const RELATION_STYLE: Record<Relation, { label: string, className: string }> = {
+  SELF: { label: '', className: 'bg-stone-800' },
+  TEAM: { label: 'T', className: 'bg-sky-900/70 text-sky-200' },
+  ALLIANCE: { label: 'A', className: 'bg-emerald-900/70 text-emerald-200' },
+  NON_AGGRESSION: { label: 'P', className: 'bg-amber-900/60 text-amber-200' },
+  WAR: { label: '', className: 'bg-red-950/40' }
+};
+
+const seconds = (ticks: number) => Math.ceil((ticks * GAME_TICK_RATE) / 1000);
+
+// Treaties of the major powers (lords and kingdoms, camps sign nothing) and our own diplomatic actions
+export const DiplomacyPanel: React.FC<DiplomacyPanelProps> = ({ engine, playerId, sendCommand }) => {
+  const [open, setOpen] = useState(false);
+  const [tick, setTick] = useState(0);
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setTick(t => t + 1), 500);
+    return () => clearInterval(interval);
+  }, []);
+
+  const powers = engine.players.filter(p => p.aiType !== AIType.CAMP && p.landArea > 0);
+  const others = powers.filter(p => p.id !== playerId);
+  const incoming = engine.diplomacy.proposals.filter(p => p.toId === playerId);
+  const outgoing = new Set(engine.diplomacy.proposals.filter(p => p.fromId === playerId).map(p => p.toId));
+  const nameOf = (id: string) => engine.getPlayer(id)?.name ?? id;
+
+  const actionButton = (label: string, cmd: GameCommand, tone = 'hover:border-amber-700') => (
+    <button
+      onClick={() => sendCommand(cmd)}
+      className={`px-1.5 py-0.5 rounded text-[10px] font-bold font-display tracking-wider border bg-stone-900 text-stone-300 border-stone-700 ${tone}`}
+    >
+      {label}
+    </button>
+  );
+
+  const actionsFor = (other: Player) => {
+    const treaty = engine.diplomacy.treatyBetween(playerId, other.id);
+    const relation = engine.getRelation(playerId, other.id);
+    const cooldown = engine.diplomacy.cooldownTicks(playerId, other.id, engine.tickCount);
+
+    if (relation === 'TEAM') return <span className="text-[10px] text-sky-400 italic">Sworn by blood</span>;
+    if (cooldown > 0) return <span className="text-[10px] text-red-400 italic">Oathbreaker {seconds(cooldown)}s</span>;
+    if (outgoing.has(other.id)) return <span className="text-[10px] text-stone-500 italic">Envoy sent...</span>;
+
+    return (
+      <div className="flex gap-1">
+        {!treaty && actionButton('PACT', { type: 'PROPOSE_TREATY', playerId, targetId: other.id, treaty: 'NON_AGGRESSION' })}
+        {treaty?.type !== 'ALLIANCE' && actionButton('ALLY', { type: 'PROPOSE_TREATY', playerId, targetId: other.id, treaty: 'ALLIANCE' })}
+        {treaty && actionButton('BREAK', { type: 'BREAK_TREATY', playerId, targetId: other.id }, 'hover:border-red-600 text-red-300')}
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute top-16 right-4 pointer-events-auto flex flex-col items-end gap-2 max-h-[70vh]">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="bg-[#1c1917]/95 backdrop-blur text-amber-100 p-2 px-4 rounded shadow-lg border border-amber-900/50 hover:border-amber-600 transition-colors"
+      >
+        <span className="text-xs font-bold font-display tracking-wider uppercase">
+          Diplomacy{incoming.length > 0 && <span className="ml-2 text-amber-400">({incoming.length})</span>}
+        </span>
+      </button>
+
+      {open && (
+        <div className="w-80 bg-[#1c1917]/95 backdrop-blur-md rounded-xl border-2 border-amber-900/40 shadow-xl overflow-y-auto custom-scrollbar p-3 space-y-3">
+          {incoming.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-[10px] text-amber-600 font-bold uppercase tracking-widest font-display">Envoys at the Gate</div>
+              {incoming.map(p => (
+                <div key={p.fromId} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 truncate text-amber-100">
+                    {nameOf(p.fromId)} <span className="text-stone-500 text-xs">offers {p.type === 'ALLIANCE' ? 'alliance' : 'a pact'}</span>
+                  </span>
+                  {actionButton('ACCEPT', { type: 'ANSWER_TREATY', playerId, fromId: p.fromId, accept: true }, 'hover:border-emerald-600')}
+                  {actionButton('REFUSE', { type: 'ANSWER_TREATY', playerId, fromId: p.fromId, accept: false }, 'hover:border-red-600')}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <div className="text-[10px] text-amber-600 font-bold uppercase tracking-widest font-display">Foreign Courts</div>
+            {others.length === 0 && <div className="text-xs text-stone-500 font-serif italic">No court left to treat with.</div>}
+            {others.map(other => {
+              const treaty = engine.diplomacy.treatyBetween(playerId, other.id);
+              return (
+                <div key={other.id} className="flex items-center gap-2 text-sm py-0.5">
+                  <span className="w-3 h-3 rounded-sm border border-black/40" style={{ backgroundColor: other.color }}></span>
+                  <span className={`flex-1 truncate ${other.isAI ? 'text-stone-400' : 'text-amber-100 font-bold'}`}>
+                    {other.name}
+                    {treaty?.expiresAtTick != null && (
+                      <span className="ml-1 text-[10px] text-stone-500">{seconds(treaty.expiresAtTick - engine.tickCount)}s</span>
+                    )}
+                  </span>
+                  {actionsFor(other)}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Relations matrix: T team, A alliance, P pact, blank = war */}
+          {powers.length > 1 && (
+            <div>
+              <div className="text-[10px] text-amber-600 font-bold uppercase tracking-widest font-display mb-1">Web of Oaths</div>
+              <table className="border-collapse">
+                <tbody>
+                  <tr>
+                    <td></td>
+                    {powers.map(p => (
+                      <td key={p.id} title={p.name} className="p-0.5">
+                        <div className="w-4 h-4 rounded-sm border border-black/40" style={{ backgroundColor: p.color }}></div>
+                      </td>
+                    ))}
+                  </tr>
+                  {powers.map(row => (
+                    <tr key={row.id}>
+                      <td title={row.name} className="p-0.5">
+                        <div className="w-4 h-4 rounded-sm border border-black/40" style={{ backgroundColor: row.color }}></div>
+                      </td>
+                      {powers.map(col => {
+                        const style = RELATION_STYLE[engine.getRelation(row.id, col.id)];
+                        return (
+                          <td key={col.id} className="p-0.5">
+                            <div className={`w-4 h-4 rounded-sm text-[9px] font-bold flex items-center justify-center ${style.className}`}>{style.label}</div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
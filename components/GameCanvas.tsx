@@ -1,7 +1,7 @@
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { GameEngine } from '../game/GameEngine';
 import { TILE_SIZE, MAP_WIDTH, MAP_HEIGHT, BUILDING_STATS, PLAYER_COLORS } from '../constants';
-import { Camera, Coordinates, UnitType, BuildingType } from '../types';
+import { Camera, Coordinates, UnitType, BuildingType, UnitOrder } from '../types';
 
 interface GameCanvasProps {
   engine: GameEngine;
@@ -9,12 +9,23 @@ interface GameCanvasProps {
   onSelectTile: (x: number, y: number) => void;
   selectedBuildingType: string | null;
   onPlaceBuilding: (x: number, y: number) => void;
-  selectedUnitId: string | null;
-  onSelectUnit: (unitId: string | null) => void;
+  selectedUnitIds: string[];
+  onSelectUnits: (unitIds: string[], additive: boolean) => void; // additive: shift held, add to the selection
+  onOrderAt: (x: number, y: number, queue: boolean) => void; // Right click, queue: shift held
   selectedSpawnUnitType: UnitType | null;
   onSpawnUnitAt: (x: number, y: number) => void;
 }
 
+const ORDER_COLORS: Record<UnitOrder['type'], string> = {
+  MOVE: '#4ade80',
+  ATTACK_MOVE: '#f87171',
+  ATTACK: '#ef4444',
+  PATROL: '#38bdf8',
+  HOLD: '#facc15',
+  EMBARK: '#a78bfa',
+  UNLOAD: '#a78bfa'
+};
+
 // Utility to darken hex color
 const darkenColor = (color: string, percent: number) => {
   if (!color) return '#000000';
@@ -50,8 +61,9 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
   onSelectTile,
   selectedBuildingType,
   onPlaceBuilding,
-  selectedUnitId,
-  onSelectUnit,
+  selectedUnitIds,
+  onSelectUnits,
+  onOrderAt,
   selectedSpawnUnitType,
   onSpawnUnitAt
 }) => {
@@ -64,8 +76,12 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
     zoom: 1
   });
 
+  // Right/middle drag (or a finger) pans the camera, left drag draws a selection box
   const isDragging = useRef(false);
   const lastMousePos = useRef<Coordinates>({ x: 0, y: 0 });
+  const selectionBox = useRef<{ start: Coordinates, end: Coordinates } | null>(null);
+  const suppressClick = useRef(false); // The click ending a box selection isn't an order
+  const rightClickStart = useRef<Coordinates | null>(null); // A right click that didn't pan is an order
 
   // --- 1. TERRAIN CACHING ---
   // We draw the terrain once to an offscreen canvas and reuse it.
@@ -142,8 +158,9 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
   const lastTickRef = useRef<number>(-1);
 
   // --- 1.5 OWNERSHIP CACHING ---
-  // Rebuild only when game tick advances (10fps max)
-  useEffect(() => {
+  // Rebuild only when game tick advances (10fps max). Checked every frame from render(),
+  // since the engine mutates in place and doesn't re-render this component.
+  const updateOwnershipCache = useCallback(() => {
     if (!engine.tiles || engine.tiles.length === 0) return;
 
     // Only update if tick changed
@@ -203,7 +220,7 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
       });
     });
 
-  }, [engine.tickCount, engine.players, engine.tiles]); // Re-run on tick or player updates
+  }, [engine]);
 
 
   const drawBuilding = (ctx: CanvasRenderingContext2D, type: BuildingType, x: number, y: number, size: number, color: string) => {
@@ -330,6 +347,8 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    updateOwnershipCache();
+
     // Background
     ctx.fillStyle = '#1e3a8a';
     ctx.fillRect(0, 0, canvas.width, canvas.height);
@@ -419,6 +438,7 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
 
     // 3B. UNITS
     // Units are sparse compared to tiles, so iteration over player units is O(U) vs O(Map)
+    const selectedIds = new Set(selectedUnitIds);
     if (engine.players) {
       engine.players.forEach(p => {
         p.units.forEach(u => {
@@ -438,6 +458,14 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
           ctx.lineWidth = 0.5;
           ctx.stroke();
 
+          // Troops aboard
+          if (u.cargo?.length) {
+            ctx.fillStyle = 'white';
+            ctx.font = 'bold 4px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.fillText(String(u.cargo.length), screenX, screenY + 1.5);
+          }
+
           // Health bar
           const hpPct = u.hp / u.maxHp;
           if (hpPct < 1) {
@@ -447,12 +475,31 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
             ctx.fillRect(screenX - 2, screenY - 5, 4 * hpPct, 1);
           }
 
-          if (u.id === selectedUnitId) {
+          if (selectedIds.has(u.id)) {
             ctx.beginPath();
             ctx.arc(screenX, screenY, 5, 0, Math.PI * 2);
             ctx.strokeStyle = '#ffff00';
             ctx.lineWidth = 1;
             ctx.stroke();
+
+            // The order queue, leg by leg
+            let fromX = screenX;
+            let fromY = screenY;
+            u.orders.forEach(order => {
+              if (!('x' in order)) return;
+              const toX = order.x * TILE_SIZE + TILE_SIZE / 2;
+              const toY = order.y * TILE_SIZE + TILE_SIZE / 2;
+              ctx.beginPath();
+              ctx.moveTo(fromX, fromY);
+              ctx.lineTo(toX, toY);
+              ctx.strokeStyle = hexToRgba(ORDER_COLORS[order.type], 0.6);
+              ctx.lineWidth = 0.5;
+              ctx.stroke();
+              ctx.fillStyle = ORDER_COLORS[order.type];
+              ctx.fillRect(toX - 1, toY - 1, 2, 2);
+              fromX = toX;
+              fromY = toY;
+            });
           }
         });
       });
@@ -562,7 +609,20 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
 
     ctx.restore();
 
-  }, [engine, camera, selectedBuildingType, playerId, selectedUnitId, selectedSpawnUnitType]);
+    // Selection box, in screen space
+    const box = selectionBox.current;
+    if (box) {
+      const rect = canvas.getBoundingClientRect();
+      const x = Math.min(box.start.x, box.end.x) - rect.left;
+      const y = Math.min(box.start.y, box.end.y) - rect.top;
+      ctx.fillStyle = 'rgba(250, 204, 21, 0.1)';
+      ctx.fillRect(x, y, Math.abs(box.end.x - box.start.x), Math.abs(box.end.y - box.start.y));
+      ctx.strokeStyle = '#facc15';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(x, y, Math.abs(box.end.x - box.start.x), Math.abs(box.end.y - box.start.y));
+    }
+
+  }, [engine, camera, selectedBuildingType, playerId, selectedUnitIds, selectedSpawnUnitType, updateOwnershipCache]);
 
   // Game Loop
   useEffect(() => {
@@ -576,8 +636,16 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
   }, [render]);
 
   // Input Handlers
+  const toWorld = (clientX: number, clientY: number): Coordinates => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (clientX - rect.left - canvas.width / 2) / camera.zoom + camera.x,
+      y: (clientY - rect.top - canvas.height / 2) / camera.zoom + camera.y
+    };
+  };
+
   const handleMouseDown = (e: React.MouseEvent | React.TouchEvent) => {
-    isDragging.current = true;
     let clientX = 0;
     let clientY = 0;
 
@@ -588,9 +656,16 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
       } else {
         return;
       }
+      isDragging.current = true;
     } else {
       clientX = (e as React.MouseEvent).clientX;
       clientY = (e as React.MouseEvent).clientY;
+      if ((e as React.MouseEvent).button === 0) {
+        selectionBox.current = { start: { x: clientX, y: clientY }, end: { x: clientX, y: clientY } };
+      } else {
+        isDragging.current = true;
+        if ((e as React.MouseEvent).button === 2) rightClickStart.current = { x: clientX, y: clientY };
+      }
     }
 
     lastMousePos.current = { x: clientX, y: clientY };
@@ -624,26 +699,54 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
         y: prev.y - dy / prev.zoom
       }));
     }
+    if (selectionBox.current) {
+      selectionBox.current.end = { x: clientX, y: clientY };
+    }
 
     lastMousePos.current = { x: clientX, y: clientY };
   };
 
   const handleMouseUp = (e: React.MouseEvent | React.TouchEvent) => {
     isDragging.current = false;
+
+    const rightStart = rightClickStart.current;
+    rightClickStart.current = null;
+    if (rightStart && 'button' in e && e.button === 2 && e.type === 'mouseup' && canvasRef.current
+      && Math.abs(e.clientX - rightStart.x) + Math.abs(e.clientY - rightStart.y) < 6) {
+      const world = toWorld(e.clientX, e.clientY);
+      onOrderAt(Math.floor(world.x / TILE_SIZE), Math.floor(world.y / TILE_SIZE), e.shiftKey);
+      return;
+    }
+
+    const box = selectionBox.current;
+    selectionBox.current = null;
+    // Below a few pixels it's a click, handled by handleClick
+    if (!box || !canvasRef.current || Math.abs(box.end.x - box.start.x) + Math.abs(box.end.y - box.start.y) < 6) return;
+
+    const a = toWorld(box.start.x, box.start.y);
+    const b = toWorld(box.end.x, box.end.y);
+    const minX = Math.min(a.x, b.x) / TILE_SIZE;
+    const maxX = Math.max(a.x, b.x) / TILE_SIZE;
+    const minY = Math.min(a.y, b.y) / TILE_SIZE;
+    const maxY = Math.max(a.y, b.y) / TILE_SIZE;
+
+    // Unit positions are tile corners drawn at the tile center, hence the half tile
+    const player = engine.players.find(p => p.id === playerId);
+    const boxed = (player?.units ?? [])
+      .filter(u => u.x + 0.5 >= minX && u.x + 0.5 <= maxX && u.y + 0.5 >= minY && u.y + 0.5 <= maxY)
+      .map(u => u.id);
+    onSelectUnits(boxed, 'shiftKey' in e && e.shiftKey);
+    suppressClick.current = 'type' in e && e.type !== 'mouseleave';
   };
 
   const handleClick = (e: React.MouseEvent) => {
     if (!canvasRef.current) return;
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    const centerX = canvasRef.current.width / 2;
-    const centerY = canvasRef.current.height / 2;
-
-    const worldX = (x - centerX) / camera.zoom + camera.x;
-    const worldY = (y - centerY) / camera.zoom + camera.y;
+    if (suppressClick.current) {
+      suppressClick.current = false;
+      return;
+    }
 
+    const { x: worldX, y: worldY } = toWorld(e.clientX, e.clientY);
     const tileX = Math.floor(worldX / TILE_SIZE);
     const tileY = Math.floor(worldY / TILE_SIZE);
 
@@ -666,7 +769,7 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
       });
 
       if (clickedUnit) {
-        onSelectUnit(clickedUnit.id);
+        onSelectUnits([clickedUnit.id], e.shiftKey);
         return;
       }
     }
@@ -696,6 +799,7 @@ const GameCanvasComponent: React.FC<GameCanvasProps> = ({
       onTouchMove={handleMouseMove}
       onTouchEnd={handleMouseUp}
       onClick={handleClick}
+      onContextMenu={(e) => e.preventDefault()}
       onWheel={handleWheel}
     />
   );
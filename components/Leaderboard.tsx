@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { SERVER_URL } from '../constants';
+import { LeaderboardEntry, PlayerStats } from '../types';
+
+interface LeaderboardProps {
+  playerId: string;
+  onExit: () => void;
+}
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ playerId, onExit }) => {
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [selected, setSelected] = useState<PlayerStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  React.useEffect(() => {
+    fetch(`${SERVER_URL}/api/leaderboard?limit=100`)
+      .then(res => res.json())
+      .then(setEntries)
+      .catch(() => setError('The heralds could not reach the capital.'));
+  }, []);
+
+  const showPlayer = (id: string) => {
+    fetch(`${SERVER_URL}/api/players/${id}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(setSelected)
+      .catch(() => setSelected(null));
+  };
+
+  // Our own record by default
+  React.useEffect(() => {
+    if (playerId) showPlayer(playerId);
+  }, [playerId]);
+
+  return (
+    <div className="w-full h-screen bg-[#0c0a09] overflow-hidden flex flex-col items-center pt-10 relative">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_top,_var(--tw-gradient-stops))] from-amber-900/20 via-[#1c1917] to-black -z-10"></div>
+
+      {/* Header */}
+      <div className="w-full max-w-5xl flex justify-between items-center mb-8 px-4">
+        <div>
+          <div className="text-xs text-amber-600 tracking-widest uppercase font-bold">Renown of the Realm</div>
+          <div className="text-3xl text-amber-100 font-display font-black">HALL OF LORDS</div>
+        </div>
+        <button
+          onClick={onExit}
+          className="px-6 py-2 bg-stone-800 hover:bg-stone-700 text-stone-300 rounded text-sm font-bold border border-stone-600 font-display tracking-wider"
+        >
+          BACK
+        </button>
+      </div>
+
+      <div className="w-full max-w-5xl flex-1 grid grid-cols-1 md:grid-cols-2 gap-6 px-4 pb-10 min-h-0">
+        {/* Rankings */}
+        <div className="bg-[#1c1917] border-2 border-amber-900/20 rounded-lg overflow-y-auto custom-scrollbar">
+          {error && <div className="p-6 text-sm text-red-400 font-serif italic">{error}</div>}
+          {!error && entries === null && <div className="p-6 text-sm text-stone-500 font-serif italic">Consulting the chronicles...</div>}
+          {entries && entries.length === 0 && <div className="p-6 text-sm text-stone-500 font-serif italic">No battle has been recorded yet.</div>}
+          {entries?.map(entry => (
+            <button
+              key={entry.playerId}
+              onClick={() => showPlayer(entry.playerId)}
+              className={`w-full flex items-center gap-3 px-4 py-2 border-b border-stone-800/50 text-left transition-colors hover:bg-amber-900/10 ${selected?.id === entry.playerId ? 'bg-amber-900/20' : ''}`}
+            >
+              <span className="w-8 text-right text-stone-500 font-mono text-xs">{entry.rank}</span>
+              <span className="w-3 h-3 rounded-sm border border-black/40" style={{ backgroundColor: entry.color }}></span>
+              <span className={`flex-1 truncate font-display ${entry.playerId === playerId ? 'text-amber-400 font-bold' : 'text-amber-100'}`}>{entry.name}</span>
+              <span className="text-xs text-stone-500 font-mono tabular-nums">{entry.wins}/{entry.gamesPlayed}</span>
+              <span className="w-14 text-right text-amber-500 font-mono font-bold tabular-nums">{entry.rating}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Profile */}
+        <div className="bg-[#1c1917] border-2 border-amber-900/20 rounded-lg p-6 overflow-y-auto custom-scrollbar">
+          {!selected ? (
+            <div className="text-sm text-stone-500 font-serif italic">Choose a lord to read their deeds.</div>
+          ) : (
+            <>
+              <div className="flex items-center gap-3 mb-4">
+                <div className="w-10 h-10 rounded border border-black/40" style={{ backgroundColor: selected.color }}></div>
+                <div>
+                  <div className="text-2xl text-amber-100 font-display font-bold">{selected.name}</div>
+                  <div className="text-xs text-stone-500 font-serif italic">Sworn in {new Date(selected.createdAt).toLocaleDateString()}</div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3 mb-6">
+                {[
+                  ['Renown', selected.rating],
+                  ['Battles', selected.gamesPlayed],
+                  ['Win Rate', `${Math.round(selected.winRate * 100)}%`]
+                ].map(([label, value]) => (
+                  <div key={label} className="bg-black/20 rounded p-3 border border-amber-900/20 text-center">
+                    <div className="text-[10px] text-stone-500 uppercase font-bold tracking-widest">{label}</div>
+                    <div className="text-xl text-amber-400 font-display font-bold tabular-nums">{value}</div>
+                  </div>
+                ))}
+              </div>
+              {selected.favoriteMap && (
+                <div className="text-sm text-stone-400 font-serif italic mb-4">Favored battlefield: <span className="text-amber-200">{selected.favoriteMap}</span></div>
+              )}
+
+              <h3 className="text-sm font-bold text-stone-500 uppercase tracking-widest mb-2 border-b border-stone-800 pb-2">Recent Battles</h3>
+              {selected.history.map(game => (
+                <div key={game.gameId} className="flex items-center gap-3 py-1.5 border-b border-stone-800/50 text-sm">
+                  <span className={`w-12 font-bold font-display ${game.placement === 1 ? 'text-amber-400' : 'text-stone-400'}`}>
+                    #{game.placement}<span className="text-stone-600 text-xs">/{game.totalPlayers}</span>
+                  </span>
+                  <span className="flex-1 truncate text-amber-100">{game.mapName}</span>
+                  {game.ranked && <span className="text-[10px] text-red-400 font-bold tracking-widest uppercase">Ranked</span>}
+                  <span className="text-xs text-stone-500">{game.endedAt ? new Date(game.endedAt).toLocaleDateString() : '-'}</span>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Lobby, PlayerProfile } from '../types';
+import { TEAM_NAMES } from '../constants';
+
+interface LobbyRosterProps {
+  lobby: Lobby;
+  playerId: string;
+  onChooseTeam: (teamId: number) => void;
+}
+
+const LordCard: React.FC<{ player: PlayerProfile, isSelf: boolean, isHost: boolean }> = ({ player, isSelf, isHost }) => (
+  <div className={`flex items-center gap-3 bg-[#292524] p-3 rounded border shadow-inner ${isSelf ? 'border-amber-700/60' : 'border-amber-900/20'}`}>
+    <div
+      className="w-9 h-9 rounded flex items-center justify-center font-bold text-amber-100 shadow-md border border-black/40 font-display"
+      style={{ backgroundColor: player.color }}
+    >
+      {player.name.charAt(0)}
+    </div>
+    <div className="min-w-0">
+      <div className="font-bold text-amber-100 font-display tracking-wide truncate">{player.name}</div>
+      <div className="text-xs text-amber-600 font-serif italic">{isHost ? 'Host' : 'Human Lord'}</div>
+    </div>
+  </div>
+);
+
+// Lords gathered in the lobby. In team games they are grouped by side and can switch sides.
+export const LobbyRoster: React.FC<LobbyRosterProps> = ({ lobby, playerId, onChooseTeam }) => {
+  const card = (p: PlayerProfile) => <LordCard key={p.id} player={p} isSelf={p.id === playerId} isHost={p.id === lobby.hostId} />;
+
+  if (lobby.rules.teams === 0) {
+    return <div className="space-y-2">{lobby.players.map(card)}</div>;
+  }
+
+  const me = lobby.players.find(p => p.id === playerId);
+  return (
+    <div className={`grid gap-3 ${lobby.rules.teams === 2 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+      {TEAM_NAMES.slice(0, lobby.rules.teams).map((teamName, i) => {
+        const teamId = i + 1;
+        const members = lobby.players.filter(p => p.teamId === teamId);
+        return (
+          <div key={teamId} className="bg-black/20 rounded p-3 border border-amber-900/20 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-amber-500 uppercase font-bold tracking-widest font-display">{teamName}</span>
+              {me && me.teamId !== teamId && lobby.status === 'WAITING' && (
+                <button
+                  onClick={() => onChooseTeam(teamId)}
+                  className="px-2 py-0.5 rounded text-[10px] font-bold font-display tracking-wider border bg-stone-900 text-stone-400 border-stone-700 hover:border-amber-700"
+                >
+                  JOIN
+                </button>
+              )}
+            </div>
+            {members.length === 0 && <div className="text-xs text-stone-600 font-serif italic">No banner raised yet</div>}
+            {members.map(card)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
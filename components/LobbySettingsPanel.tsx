@@ -0,0 +1,130 @@
+import React from 'react';
+import { BotDifficulty, GameMode, GameModeType, Lobby, LobbySettings } from '../types';
+import { DEFAULT_GAME_MODES } from '../constants';
+
+const DIFFICULTIES: BotDifficulty[] = ['EASY', 'NORMAL', 'HARD'];
+const MODE_LABELS: Record<GameModeType, string> = { CONQUEST: 'CONQUEST', TIMED: 'TIMED', REGICIDE: 'REGICIDE', KING_OF_THE_HILL: 'HILL' };
+const SIDES = [0, 2, 3, 4]; // 0 = free-for-all
+
+interface LobbySettingsPanelProps {
+  lobby: Lobby;
+  maps: { id: string, name: string }[];
+  isHost: boolean;
+  onChange: (settings: Partial<LobbySettings>) => void;
+}
+
+// Host-editable match settings. Everyone else sees them read-only.
+export const LobbySettingsPanel: React.FC<LobbySettingsPanelProps> = ({ lobby, maps, isHost, onChange }) => {
+  // Mode parameters are sent as a whole mode, the server validates them
+  const setMode = (mode: GameMode) => onChange({ mode });
+
+  const numberField = (label: string, value: number, onValue: (value: number) => void, min: number, max: number, suffix = '') => (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-xs text-stone-500 uppercase font-bold tracking-widest">{label}</span>
+      {isHost ? (
+        <input
+          type="number"
+          min={min}
+          max={max}
+          value={value}
+          onChange={(e) => onValue(parseInt(e.target.value) || min)}
+          className="w-20 bg-stone-900 border border-stone-700 rounded px-2 py-1 text-amber-100 font-mono text-sm text-right focus:border-amber-600 outline-none"
+        />
+      ) : (
+        <span className="text-amber-100 font-mono text-sm">{value}{suffix}</span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-bold text-stone-500 uppercase tracking-widest mb-2 border-b border-stone-800 pb-2">Terms of War</h3>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-stone-500 uppercase font-bold tracking-widest">Battlefield</span>
+        {isHost ? (
+          <select
+            value={lobby.mapId}
+            onChange={(e) => onChange({ mapId: e.target.value === '' ? null : e.target.value })}
+            className="bg-stone-900 border border-stone-700 rounded px-2 py-1 text-amber-100 text-sm focus:border-amber-600 outline-none max-w-[60%]"
+          >
+            {!maps.some(m => m.id === lobby.mapId) && <option value={lobby.mapId}>{lobby.mapName}</option>}
+            {maps.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+            <option value="">Random</option>
+          </select>
+        ) : (
+          <span className="text-amber-100 font-display">{lobby.mapName}</span>
+        )}
+      </div>
+
+      {numberField('Max Lords', lobby.maxPlayers, v => onChange({ maxPlayers: v }), 2, 40)}
+      {numberField('Camps', lobby.bots.camps, v => onChange({ camps: v }), 0, 60)}
+      {numberField('Kingdoms', lobby.bots.kingdoms, v => onChange({ kingdoms: v }), 0, 16)}
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-stone-500 uppercase font-bold tracking-widest">Victory</span>
+        <div className="flex gap-1">
+          {(Object.keys(MODE_LABELS) as GameModeType[]).map(type => (
+            <button
+              key={type}
+              disabled={!isHost}
+              onClick={() => setMode(DEFAULT_GAME_MODES[type])}
+              className={`px-2 py-1 rounded text-[10px] font-bold font-display tracking-wider border transition-colors ${lobby.rules.mode.type === type
+                ? 'bg-amber-700 text-white border-amber-500'
+                : 'bg-stone-900 text-stone-400 border-stone-700 enabled:hover:border-amber-700'}`}
+            >
+              {MODE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {lobby.rules.mode.type === 'CONQUEST' && numberField('Land to Win', lobby.rules.mode.winPercentage, v => setMode({ type: 'CONQUEST', winPercentage: v }), 30, 95, '%')}
+      {lobby.rules.mode.type === 'TIMED' && numberField('Minutes', lobby.rules.mode.minutes, v => setMode({ type: 'TIMED', minutes: v }), 5, 90)}
+      {lobby.rules.mode.type === 'KING_OF_THE_HILL' && (() => {
+        const hill = lobby.rules.mode;
+        return (
+          <>
+            {numberField('Hill Radius', hill.hillRadius, v => setMode({ ...hill, hillRadius: v }), 4, 30)}
+            {numberField('Hold For', hill.holdSeconds, v => setMode({ ...hill, holdSeconds: v }), 30, 600, 's')}
+          </>
+        );
+      })()}
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-stone-500 uppercase font-bold tracking-widest">Bot Cunning</span>
+        <div className="flex gap-1">
+          {DIFFICULTIES.map(d => (
+            <button
+              key={d}
+              disabled={!isHost}
+              onClick={() => onChange({ botDifficulty: d })}
+              className={`px-2 py-1 rounded text-[10px] font-bold font-display tracking-wider border transition-colors ${lobby.rules.botDifficulty === d
+                ? 'bg-amber-700 text-white border-amber-500'
+                : 'bg-stone-900 text-stone-400 border-stone-700 enabled:hover:border-amber-700'}`}
+            >
+              {d}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-stone-500 uppercase font-bold tracking-widest">Sides</span>
+        <div className="flex gap-1">
+          {SIDES.map(n => (
+            <button
+              key={n}
+              disabled={!isHost}
+              onClick={() => onChange({ teams: n })}
+              className={`px-2 py-1 rounded text-[10px] font-bold font-display tracking-wider border transition-colors ${lobby.rules.teams === n
+                ? 'bg-amber-700 text-white border-amber-500'
+                : 'bg-stone-900 text-stone-400 border-stone-700 enabled:hover:border-amber-700'}`}
+            >
+              {n === 0 ? 'FFA' : n}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
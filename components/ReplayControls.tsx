@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ReplayPlayer } from '../game/Replay';
+import { GAME_TICK_RATE } from '../constants';
+
+const SPEEDS = [1, 2, 4, 8];
+
+const formatSteps = (steps: number) => {
+  const seconds = Math.floor((steps * GAME_TICK_RATE) / 1000);
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
+};
+
+interface ReplayControlsProps {
+  player: ReplayPlayer;
+  onExit: () => void;
+}
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ player, onExit }) => {
+  const [tick, setTick] = useState(0);
+
+  // The replay is stepped from App's frame loop, we only refresh the readouts
+  React.useEffect(() => {
+    const interval = setInterval(() => {
+      setTick(t => t + 1);
+    }, 100);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { replay } = player;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-4 pb-6">
+      {/* Top Bar */}
+      <div className="flex justify-center w-full relative pt-2">
+        <div className="bg-[#1c1917]/95 backdrop-blur-md px-6 py-3 rounded-xl text-amber-100 shadow-xl border-2 border-amber-900/40 pointer-events-auto text-center">
+          <div className="text-[10px] text-amber-600 font-bold uppercase tracking-widest font-display">Chronicle of Province {replay.id}</div>
+          <div className="font-display text-lg">{replay.mapName}</div>
+          <div className="text-xs text-stone-500 font-serif italic">
+            {replay.winnerName ? `Won by ${replay.winnerName}` : 'Unfinished'}
+          </div>
+        </div>
+
+        <button
+          onClick={onExit}
+          className="absolute right-0 top-0 pointer-events-auto bg-red-900/90 hover:bg-red-800 backdrop-blur text-red-100 p-2 px-4 rounded shadow-lg border border-red-700 transition-all transform hover:scale-105"
+        >
+          <span className="text-xs font-bold font-display tracking-wider uppercase">Close</span>
+        </button>
+      </div>
+
+      {/* Playback Bar */}
+      <div className="flex justify-center pointer-events-auto">
+        <div className="bg-[#1c1917]/95 backdrop-blur-xl p-3 px-6 rounded-xl border-2 border-amber-900/50 shadow-[0_-10px_40px_rgba(0,0,0,0.5)] flex items-center gap-4 w-full max-w-3xl">
+          <button
+            onClick={() => (player.playing ? player.pause() : player.play())}
+            className="w-20 py-2 bg-amber-700 hover:bg-amber-600 text-white rounded text-sm font-bold border border-amber-500 font-display tracking-wider"
+          >
+            {player.playing ? 'PAUSE' : 'PLAY'}
+          </button>
+
+          <div className="text-xs text-amber-500 font-mono tabular-nums w-24 text-center">
+            {formatSteps(player.step)} / {formatSteps(player.totalSteps)}
+          </div>
+
+          <input
+            type="range"
+            min={0}
+            max={player.totalSteps}
+            value={player.step}
+            onChange={(e) => player.seek(parseInt(e.target.value))}
+            className="flex-1 accent-amber-500 cursor-pointer"
+          />
+
+          <div className="flex gap-1">
+            {SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => player.setSpeed(speed)}
+                className={`px-2 py-1 rounded text-xs font-bold font-mono border transition-colors ${player.speed === speed
+                  ? 'bg-amber-700 text-white border-amber-500'
+                  : 'bg-stone-900 text-stone-400 border-stone-700 hover:border-amber-700'}`}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+
+          {player.isSeeking && (
+            <div className="text-[10px] text-stone-500 font-serif italic">Seeking...</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
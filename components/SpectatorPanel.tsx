@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { GameEngine } from '../game/GameEngine';
+
+type RankBy = 'land' | 'pop';
+
+interface SpectatorPanelProps {
+  engine: GameEngine;
+  lobbyId: string;
+  onExit: () => void;
+}
+
+export const SpectatorPanel: React.FC<SpectatorPanelProps> = ({ engine, lobbyId, onExit }) => {
+  const [tick, setTick] = useState(0);
+  const [rankBy, setRankBy] = useState<RankBy>('land');
+
+  // The engine is updated by the network stream, we only refresh the rankings
+  React.useEffect(() => {
+    const interval = setInterval(() => {
+      setTick(t => t + 1);
+    }, 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  const ranked = engine.players
+    .filter(p => p.landArea > 0)
+    .sort((a, b) => rankBy === 'land' ? b.landArea - a.landArea : b.population - a.population);
+  const totalLand = Math.max(1, engine.totalLandTiles);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none flex justify-between p-4">
+      {/* Rankings */}
+      <div className="w-72 max-h-full flex flex-col bg-[#1c1917]/95 backdrop-blur-md rounded-xl border-2 border-amber-900/40 shadow-xl pointer-events-auto overflow-hidden">
+        <div className="px-4 py-3 border-b border-amber-900/30">
+          <div className="text-[10px] text-amber-600 font-bold uppercase tracking-widest font-display">Watching Province {lobbyId}</div>
+          <div className="flex gap-1 mt-2">
+            {(['land', 'pop'] as RankBy[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setRankBy(key)}
+                className={`flex-1 py-1 rounded text-xs font-bold font-display tracking-wider uppercase border transition-colors ${rankBy === key
+                  ? 'bg-amber-700 text-white border-amber-500'
+                  : 'bg-stone-900 text-stone-400 border-stone-700 hover:border-amber-700'}`}
+              >
+                {key === 'land' ? 'Land' : 'Population'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar flex-1">
+          {ranked.map((p, i) => (
+            <div key={p.id} className="flex items-center gap-2 px-4 py-1.5 border-b border-stone-800/50 text-sm">
+              <span className="w-5 text-right text-stone-500 font-mono text-xs">{i + 1}</span>
+              <span className="w-3 h-3 rounded-sm border border-black/40" style={{ backgroundColor: p.color }}></span>
+              <span className={`flex-1 truncate ${p.isAI ? 'text-stone-400' : 'text-amber-100 font-bold'}`}>{p.name}</span>
+              <span className="text-amber-500 font-mono text-xs tabular-nums">
+                {rankBy === 'land'
+                  ? `${((p.landArea / totalLand) * 100).toFixed(1)}%`
+                  : Math.floor(p.population)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={onExit}
+        className="self-start pointer-events-auto bg-red-900/90 hover:bg-red-800 backdrop-blur text-red-100 p-2 px-4 rounded shadow-lg border border-red-700 transition-all transform hover:scale-105"
+      >
+        <span className="text-xs font-bold font-display tracking-wider uppercase">Stop Watching</span>
+      </button>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { BuildingType, Player, ResourceType, UnitType } from '../types';
-import { BUILDING_COSTS, UNIT_COSTS } from '../constants';
+import { BuildingType, ChatChannel, ChatMessage, Formation, Player, ResourceType, UnitOrderType, UnitType } from '../types';
+import { BUILDING_COSTS, GAME_TICK_RATE, TEAM_NAMES, UNIT_COSTS, UNIT_STATS } from '../constants';
+import { ChatPanel } from './ChatPanel';
 
 const getResourceColor = (res: ResourceType): string => {
   switch (res) {
@@ -84,6 +85,7 @@ const UnitButton: React.FC<{
   selectedSpawnUnitType: UnitType | null;
 }> = ({ type, player, onUnitSpawn, selectedSpawnUnitType }) => {
   const cost = UNIT_COSTS[type];
+  const stats = UNIT_STATS[type];
   const canAfford =
     player.resources.GOLD >= cost.GOLD &&
     player.resources.WOOD >= cost.WOOD &&
@@ -94,6 +96,7 @@ const UnitButton: React.FC<{
     <button
       onClick={() => onUnitSpawn(type)}
       disabled={!canAfford}
+      title={`${stats.attack} ${stats.damageType.toLowerCase()} every ${(stats.cooldown * GAME_TICK_RATE) / 1000}s, ${stats.armor.toLowerCase()} armor`}
       className={`
               relative group flex flex-col items-center justify-center p-2 rounded w-16 h-16 transition-all duration-200 border-2
               ${selectedSpawnUnitType === type
@@ -111,6 +114,101 @@ const UnitButton: React.FC<{
 
 import { GameEngine } from '../game/GameEngine';
 
+const formatClock = (ticks: number) => {
+  const s = Math.max(0, Math.ceil((ticks * GAME_TICK_RATE) / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+// What wins this match, and how close anyone is
+const Objective = ({ engine }: { engine: GameEngine }) => {
+  const mode = engine.mode;
+  let title = '';
+  let detail = '';
+
+  switch (mode.type) {
+    case 'CONQUEST':
+      title = 'Conquest';
+      detail = `Hold ${mode.winPercentage}% of the land`;
+      break;
+    case 'TIMED':
+      title = 'Timed War';
+      detail = `${formatClock((mode.minutes * 60 * 1000) / GAME_TICK_RATE - engine.tickCount)} until the largest realm is crowned`;
+      break;
+    case 'REGICIDE': {
+      const crowns = engine.players.filter(p => p.ownedTiles.some(t => t.building?.type === BuildingType.KINGDOM && t.building.ownerId === p.id)).length;
+      title = 'Regicide';
+      detail = `${crowns} crowns still stand`;
+      break;
+    }
+    case 'KING_OF_THE_HILL': {
+      const holderId = engine.victory.hillHolderId;
+      const holder = holderId?.startsWith('T') ? TEAM_NAMES[parseInt(holderId.slice(1)) - 1] : holderId ? engine.getPlayer(holderId)?.name : null;
+      title = 'King of the Hill';
+      detail = holder
+        ? `${holder} holds the hill ${formatClock(engine.victory.hillHeldTicks)} / ${formatClock((mode.holdSeconds * 1000) / GAME_TICK_RATE)}`
+        : 'The central hill is contested';
+      break;
+    }
+  }
+
+  return (
+    <div className="mt-2 px-3 py-1 bg-[#1c1917]/85 backdrop-blur rounded border border-amber-900/40 text-center pointer-events-auto">
+      <span className="text-[10px] text-amber-500 uppercase font-bold tracking-widest font-display mr-2">{title}</span>
+      <span className="text-xs text-stone-300 font-serif">{detail}</span>
+    </div>
+  );
+};
+
+const FORMATIONS: Formation[] = ['LINE', 'WEDGE', 'COLUMN'];
+
+// Warband orders and their hotkeys. Attack-move and patrol wait for a click on the land.
+const ORDERS: { order: UnitOrderType, label: string, key: string }[] = [
+  { order: 'STOP', label: 'STOP', key: 'S' },
+  { order: 'HOLD', label: 'HOLD', key: 'H' },
+  { order: 'ATTACK_MOVE', label: 'ASSAULT', key: 'A' },
+  { order: 'PATROL', label: 'PATROL', key: 'P' }
+];
+
+const FEED_TICKS = 150; // How long a fall stays in the herald's feed
+
+// Recent eliminations, newest first
+const FallenFeed = ({ engine }: { engine: GameEngine }) => {
+  const recent = engine.eliminations.filter(e => engine.tickCount - e.tick < FEED_TICKS).slice(-4).reverse();
+  if (recent.length === 0) return null;
+  const nameOf = (id: string | null) => (id ? engine.getPlayer(id)?.name ?? id : null);
+
+  return (
+    <div className="mt-2 flex flex-col items-center gap-1">
+      {recent.map(e => (
+        <div key={e.playerId} className="px-3 py-0.5 bg-red-950/70 rounded border border-red-900/50 text-xs text-red-100 font-serif italic">
+          {nameOf(e.playerId)} has fallen{e.eliminatedById && <> to {nameOf(e.eliminatedById)}</>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Shown instead of the command bars once our realm is gone: we may stay and watch
+const FallenNotice = ({ engine, playerId, onExit }: { engine: GameEngine, playerId: string, onExit: () => void }) => {
+  const event = engine.eliminations.find(e => e.playerId === playerId);
+  const killer = event?.eliminatedById ? engine.getPlayer(event.eliminatedById)?.name : null;
+
+  return (
+    <div className="pointer-events-auto bg-[#1c1917]/95 backdrop-blur-xl px-10 py-5 rounded-xl border-2 border-red-900/60 shadow-2xl text-center">
+      <div className="text-red-400 font-black font-display text-2xl tracking-widest">THY REALM HAS FALLEN</div>
+      <div className="text-stone-400 text-sm font-serif italic mt-1">
+        {killer ? `Conquered by ${killer}` : 'Thy last lands crumbled'}{event && ` at ${formatClock(event.tick)}`}. Thou mayst watch the war play out.
+      </div>
+      <button
+        onClick={onExit}
+        className="mt-3 px-6 py-2 bg-red-900/80 hover:bg-red-800 text-red-100 rounded border border-red-700 text-xs font-bold font-display tracking-widest uppercase"
+      >
+        Leave the Field
+      </button>
+    </div>
+  );
+};
+
 interface UIOverlayProps {
   engine: GameEngine;
   playerId: string;
@@ -118,9 +216,19 @@ interface UIOverlayProps {
   onUnitSpawn: (type: UnitType) => void;
   selectedBuilding: BuildingType | null;
   selectedSpawnUnitType: UnitType | null;
+  selectedUnitCount: number;
+  formation: Formation;
+  onFormationChange: (formation: Formation) => void;
+  pendingOrder: UnitOrderType | null; // Waiting for the click on the land
+  onOrder: (order: UnitOrderType) => void;
   attackPercentage: number;
   setAttackPercentage: (val: number) => void;
   onExit: () => void;
+  chatMessages: ChatMessage[];
+  mutedIds: string[];
+  chatNotice: string | null;
+  onSendChat: (channel: ChatChannel, text: string) => void;
+  onToggleMute: (playerId: string, muted: boolean) => void;
 }
 
 export const UIOverlay: React.FC<UIOverlayProps> = ({
@@ -130,9 +238,19 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
   onUnitSpawn,
   selectedBuilding,
   selectedSpawnUnitType,
+  selectedUnitCount,
+  formation,
+  onFormationChange,
+  pendingOrder,
+  onOrder,
   attackPercentage,
   setAttackPercentage,
-  onExit
+  onExit,
+  chatMessages,
+  mutedIds,
+  chatNotice,
+  onSendChat,
+  onToggleMute
 }) => {
   const [tick, setTick] = useState(0);
 
@@ -150,8 +268,10 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
   return (
     <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-4 pb-6">
       {/* Top Bar */}
-      <div className="flex justify-center w-full relative pt-2">
+      <div className="flex flex-col items-center w-full relative pt-2">
         <Resources player={player} />
+        <Objective engine={engine} />
+        <FallenFeed engine={engine} />
 
         {/* Return to Lobby Button */}
         <button
@@ -166,61 +286,110 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({
         </button>
       </div>
 
-
+      {/* Chat */}
+      <ChatPanel
+        messages={chatMessages}
+        channels={['ALL', 'TEAM']}
+        playerId={playerId}
+        mutedIds={mutedIds}
+        notice={chatNotice}
+        onSend={onSendChat}
+        onToggleMute={onToggleMute}
+        className="absolute left-4 bottom-48 w-80 h-56 pointer-events-auto"
+      />
 
       {/* Bottom Bar (Controls) */}
-      <div className="flex flex-col items-center pointer-events-auto">
-        {/* Units Panel */}
-        <div className="flex gap-2 mb-3 items-stretch">
-
-          {/* Attack Slider (Horizontal) */}
-          <div className="bg-[#1c1917]/90 backdrop-blur-md p-2 rounded-lg border border-amber-900/40 shadow-lg flex flex-col justify-center gap-1 min-w-[140px] px-3 transform translate-y-2 hover:translate-y-0 transition-transform">
-            <div className="flex justify-between items-center w-full">
-              <span className="text-[10px] text-amber-700 font-bold uppercase tracking-widest font-display">Aggression</span>
-              <span className="text-amber-500 font-bold text-xs font-display">{attackPercentage}%</span>
-            </div>
+      {engine.isEliminated(player) ? (
+        <div className="flex justify-center">
+          <FallenNotice engine={engine} playerId={playerId} onExit={onExit} />
+        </div>
+      ) : (
+        <div className="flex flex-col items-center pointer-events-auto">
+          {/* Units Panel */}
+          <div className="flex gap-2 mb-3 items-stretch">
+
+            {/* Attack Slider (Horizontal) */}
+            <div className="bg-[#1c1917]/90 backdrop-blur-md p-2 rounded-lg border border-amber-900/40 shadow-lg flex flex-col justify-center gap-1 min-w-[140px] px-3 transform translate-y-2 hover:translate-y-0 transition-transform">
+              <div className="flex justify-between items-center w-full">
+                <span className="text-[10px] text-amber-700 font-bold uppercase tracking-widest font-display">Aggression</span>
+                <span className="text-amber-500 font-bold text-xs font-display">{attackPercentage}%</span>
+              </div>
 
-            <div className="h-3 w-full bg-[#0c0a09] rounded-full relative overflow-hidden border border-amber-900/30">
-              <div
-                className="absolute left-0 h-full bg-gradient-to-r from-red-900 via-amber-600 to-yellow-400 transition-all duration-200"
-                style={{ width: `${attackPercentage}%` }}
-              ></div>
-              <input
-                type="range"
-                min="1"
-                max="100"
-                value={attackPercentage}
-                onChange={(e) => setAttackPercentage(parseInt(e.target.value))}
-                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-50"
-              />
+              <div className="h-3 w-full bg-[#0c0a09] rounded-full relative overflow-hidden border border-amber-900/30">
+                <div
+                  className="absolute left-0 h-full bg-gradient-to-r from-red-900 via-amber-600 to-yellow-400 transition-all duration-200"
+                  style={{ width: `${attackPercentage}%` }}
+                ></div>
+                <input
+                  type="range"
+                  min="1"
+                  max="100"
+                  value={attackPercentage}
+                  onChange={(e) => setAttackPercentage(parseInt(e.target.value))}
+                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-50"
+                />
+              </div>
             </div>
-          </div>
 
-          {/* Units Panel */}
-          <div className="flex gap-2 bg-[#1c1917]/90 backdrop-blur-md p-2 rounded-lg border border-amber-900/40 shadow-lg transform translate-y-2 hover:translate-y-0 transition-transform">
-            <div className="flex flex-col justify-center px-2 border-r border-amber-900/30">
-              <span className="text-[10px] text-amber-600 uppercase font-bold tracking-wider font-display">Raise</span>
-              <span className="text-[10px] text-amber-600 uppercase font-bold tracking-wider font-display">Army</span>
+            {/* Selected Warband */}
+            {selectedUnitCount > 0 && (
+              <div className="bg-[#1c1917]/90 backdrop-blur-md p-2 px-3 rounded-lg border border-amber-900/40 shadow-lg flex flex-col justify-center gap-1 transform translate-y-2 hover:translate-y-0 transition-transform">
+                <span className="text-[10px] text-amber-600 font-bold uppercase tracking-widest font-display">Warband of {selectedUnitCount}</span>
+                <div className="flex gap-1">
+                  {FORMATIONS.map(f => (
+                    <button
+                      key={f}
+                      onClick={() => onFormationChange(f)}
+                      className={`px-1.5 py-0.5 rounded text-[10px] font-bold font-display tracking-wider border ${formation === f ? 'bg-amber-900 border-amber-500 text-amber-100' : 'bg-stone-900 border-stone-700 text-stone-400 hover:border-amber-700'}`}
+                    >
+                      {f}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex gap-1">
+                  {ORDERS.map(o => (
+                    <button
+                      key={o.order}
+                      onClick={() => onOrder(o.order)}
+                      title={`Hotkey: ${o.key}`}
+                      className={`px-1.5 py-0.5 rounded text-[10px] font-bold font-display tracking-wider border ${pendingOrder === o.order ? 'bg-red-900 border-red-500 text-red-100' : 'bg-stone-900 border-stone-700 text-stone-400 hover:border-amber-700'}`}
+                    >
+                      {o.label}
+                    </button>
+                  ))}
+                </div>
+                <span className="text-[9px] text-stone-500 font-serif italic">
+                  {pendingOrder ? 'Click the land to give the order, Esc to cancel' : 'Right click to march, strike, board or land, Shift to queue, Ctrl+1-9 to muster'}
+                </span>
+              </div>
+            )}
+
+            {/* Units Panel */}
+            <div className="flex gap-2 bg-[#1c1917]/90 backdrop-blur-md p-2 rounded-lg border border-amber-900/40 shadow-lg transform translate-y-2 hover:translate-y-0 transition-transform">
+              <div className="flex flex-col justify-center px-2 border-r border-amber-900/30">
+                <span className="text-[10px] text-amber-600 uppercase font-bold tracking-wider font-display">Raise</span>
+                <span className="text-[10px] text-amber-600 uppercase font-bold tracking-wider font-display">Army</span>
+              </div>
+              {(Object.keys(UnitType) as UnitType[]).map(u => (
+                <UnitButton key={u} type={u} player={player} onUnitSpawn={onUnitSpawn} selectedSpawnUnitType={selectedSpawnUnitType} />
+              ))}
             </div>
-            {(Object.keys(UnitType) as UnitType[]).map(u => (
-              <UnitButton key={u} type={u} player={player} onUnitSpawn={onUnitSpawn} selectedSpawnUnitType={selectedSpawnUnitType} />
-            ))}
           </div>
-        </div>
 
-        {/* Build Panel */}
-        <div className="bg-[#1c1917]/95 backdrop-blur-xl p-3 px-6 rounded-t-xl border-t-2 border-l border-r border-amber-900/50 shadow-[0_-10px_40px_rgba(0,0,0,0.5)] flex gap-3 overflow-x-auto max-w-full">
-          <div className="flex flex-col justify-center mr-2 border-r border-amber-900/30 pr-4">
-            <span className="text-xs text-amber-500 uppercase font-bold tracking-widest font-display">Erect</span>
-            <span className="text-[10px] text-stone-500 font-serif italic">Defense</span>
+          {/* Build Panel */}
+          <div className="bg-[#1c1917]/95 backdrop-blur-xl p-3 px-6 rounded-t-xl border-t-2 border-l border-r border-amber-900/50 shadow-[0_-10px_40px_rgba(0,0,0,0.5)] flex gap-3 overflow-x-auto max-w-full">
+            <div className="flex flex-col justify-center mr-2 border-r border-amber-900/30 pr-4">
+              <span className="text-xs text-amber-500 uppercase font-bold tracking-widest font-display">Erect</span>
+              <span className="text-[10px] text-stone-500 font-serif italic">Defense</span>
+            </div>
+            {(Object.keys(BuildingType) as BuildingType[])
+              .filter(b => b !== BuildingType.KINGDOM)
+              .map(b => (
+                <BuildButton key={b} type={b} player={player} onBuildSelect={onBuildSelect} selectedBuilding={selectedBuilding} />
+              ))}
           </div>
-          {(Object.keys(BuildingType) as BuildingType[])
-            .filter(b => b !== BuildingType.KINGDOM)
-            .map(b => (
-              <BuildButton key={b} type={b} player={player} onBuildSelect={onBuildSelect} selectedBuilding={selectedBuilding} />
-            ))}
         </div>
-      </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,7 +1,33 @@
 
-import { BuildingType, ResourceType, UnitType } from './types';
+import { ArmorClass, BotDifficulty, BuildingType, DamageType, GameMode, GameModeType, MatchRules, ResourceType, UnitType } from './types.ts';
 
+export const SERVER_URL = 'http://localhost:3002'; // Socket.io and the /api stats endpoints
 export const GAME_TICK_RATE = 100; // ms per tick for logic (10 ticks per second)
+export const PLACEMENT_TICKS = 200; // 20s for humans to pick a keep before being placed randomly
+export const CHECKSUM_INTERVAL = 50; // Lockstep peers report a state checksum every N steps
+export const SNAPSHOT_INTERVAL = 300; // The server persists a full match save every N steps (30s)
+export const MAX_MATCH_TICKS = 72000; // 2 hours, past the longest TIMED match: bots alone may never settle an island map
+export const DEFAULT_MATCH_RULES: MatchRules = { mode: { type: 'CONQUEST', winPercentage: 80 }, botDifficulty: 'NORMAL', teams: 0 };
+
+// Parameters a mode starts with when the host switches to it
+export const DEFAULT_GAME_MODES: { [T in GameModeType]: Extract<GameMode, { type: T }> } = {
+  CONQUEST: { type: 'CONQUEST', winPercentage: 80 },
+  TIMED: { type: 'TIMED', minutes: 20 },
+  REGICIDE: { type: 'REGICIDE' },
+  KING_OF_THE_HILL: { type: 'KING_OF_THE_HILL', hillRadius: 12, holdSeconds: 120 }
+};
+
+// Diplomacy, in logic ticks (10 per second)
+export const TREATY_PROPOSAL_TICKS = 300; // 30s to answer a proposal
+export const NON_AGGRESSION_TICKS = 3000; // A non-aggression pact holds for 5 minutes
+export const BETRAYAL_COOLDOWN_TICKS = 1800; // Breaking a treaty bars a new one with that player for 3 minutes
+
+export const CHAT_MAX_LENGTH = 200;
+
+// Sides of a team game, in teamId order (teamId 1 = first name)
+export const TEAM_NAMES = ['Azure Host', 'Crimson Host', 'Verdant Host', 'Golden Host'];
+// Scales the share of population bots commit to each expansion
+export const BOT_DIFFICULTY_COMMITMENT: Record<BotDifficulty, number> = { EASY: 0.5, NORMAL: 1, HARD: 1.5 };
 export const RENDER_FPS = 60;
 export const TILE_SIZE = 2; // Smaller tiles for higher resolution map
 
@@ -41,14 +67,34 @@ export const UNIT_COSTS: Record<UnitType, Record<ResourceType, number>> = {
   [UnitType.BOAT]: { [ResourceType.GOLD]: 150, [ResourceType.WOOD]: 200, [ResourceType.STONE]: 0, [ResourceType.FOOD]: 50 },
 };
 
-// Speed and Range doubled to account for TILE_SIZE reduction (4->2) and Map Increase
-export const UNIT_STATS: Record<UnitType, { hp: number, attack: number, speed: number, range: number }> = {
-  [UnitType.SOLDIER]: { hp: 50, attack: 5, speed: 0.1, range: 1 },
-  [UnitType.SWORDSMAN]: { hp: 120, attack: 15, speed: 0.08, range: 1 },
-  [UnitType.ARCHER]: { hp: 80, attack: 12, speed: 0.1, range: 6 },
-  [UnitType.HORSE]: { hp: 200, attack: 20, speed: 0.16, range: 1 },
-  [UnitType.TREBUCHET]: { hp: 300, attack: 50, speed: 0.04, range: 12 },
-  [UnitType.BOAT]: { hp: 400, attack: 30, speed: 0.12, range: 8 },
+export const MAX_UNIT_ORDERS = 10; // Queue length of a unit (shift + order)
+
+// Naval warfare
+export const BOAT_CAPACITY = 8; // Land units a boat carries
+export const EMBARK_RANGE = 2.5; // Tiles between a land unit and the boat it boards: enough to reach across a pier
+export const BLOCKADE_RADIUS = 1; // Coastal tiles this close to a hostile boat don't regenerate defense
+
+// Speed and Range doubled to account for TILE_SIZE reduction (4->2) and Map Increase.
+// attack is per blow, cooldown the logic ticks between two blows. Nothing closer than minRange can be aimed at.
+export const UNIT_STATS: Record<UnitType, {
+  hp: number, attack: number, speed: number, range: number, minRange: number, cooldown: number, damageType: DamageType, armor: ArmorClass
+}> = {
+  [UnitType.SOLDIER]: { hp: 50, attack: 6, speed: 0.1, range: 1, minRange: 0, cooldown: 8, damageType: 'SLASH', armor: 'LIGHT' },
+  [UnitType.SWORDSMAN]: { hp: 120, attack: 14, speed: 0.08, range: 1, minRange: 0, cooldown: 10, damageType: 'SLASH', armor: 'HEAVY' },
+  [UnitType.ARCHER]: { hp: 80, attack: 10, speed: 0.1, range: 6, minRange: 0, cooldown: 12, damageType: 'PIERCE', armor: 'RANGED' },
+  [UnitType.HORSE]: { hp: 200, attack: 18, speed: 0.16, range: 1, minRange: 0, cooldown: 12, damageType: 'CHARGE', armor: 'MOUNTED' },
+  [UnitType.TREBUCHET]: { hp: 300, attack: 120, speed: 0.04, range: 12, minRange: 3, cooldown: 40, damageType: 'SIEGE', armor: 'SIEGE' },
+  [UnitType.BOAT]: { hp: 400, attack: 30, speed: 0.12, range: 8, minRange: 0, cooldown: 20, damageType: 'PIERCE', armor: 'NAVAL' },
+};
+
+// Counter matrix: damage dealt = attack x DAMAGE_MULTIPLIERS[attacker damage type][target armor].
+// Archers shoot swordsmen to pieces, horses ride archers down, swords cut horses and siege engines apart,
+// and only siege damage does much to walls.
+export const DAMAGE_MULTIPLIERS: Record<DamageType, Record<ArmorClass, number>> = {
+  PIERCE: { LIGHT: 1, HEAVY: 2, RANGED: 1, MOUNTED: 0.5, SIEGE: 0.25, NAVAL: 0.5, BUILDING: 0.2 },
+  SLASH: { LIGHT: 1, HEAVY: 0.75, RANGED: 1.25, MOUNTED: 1.5, SIEGE: 2, NAVAL: 0.5, BUILDING: 0.5 },
+  CHARGE: { LIGHT: 1.25, HEAVY: 0.75, RANGED: 2, MOUNTED: 1, SIEGE: 2, NAVAL: 0.25, BUILDING: 0.5 },
+  SIEGE: { LIGHT: 0.5, HEAVY: 0.5, RANGED: 0.5, MOUNTED: 0.25, SIEGE: 1, NAVAL: 1.5, BUILDING: 4 },
 };
 
 export const PLAYER_COLORS = [
@@ -78,6 +124,8 @@ export const PLAYER_COLORS = [
   '#7e22ce', // Purple 700
 ];
 
+export const CAMP_COLOR = '#57534e'; // Camps share one muted color, the palette is for lords and kingdoms
+
 export const CAMP_NAMES = [
   "Bandits", "Outlaws", "Raiders", "Rebels", "Exiles", "Rogues", "Marauders", "Vagabonds"
 ];
@@ -85,7 +133,3 @@ export const CAMP_NAMES = [
 export const KINGDOM_NAMES = [
   "North", "South", "East", "West", "Highlands", "Lowlands", "Riverlands", "Coast"
 ];
-
-export function getRandomName(names: string[]): string {
-  return names[Math.floor(Math.random() * names.length)];
-}
@@ -0,0 +1,106 @@
+import { DiplomacyState, Treaty, TreatyProposal, TreatyType } from '../types.ts';
+import { BETRAYAL_COOLDOWN_TICKS, NON_AGGRESSION_TICKS, TREATY_PROPOSAL_TICKS } from '../constants.ts';
+
+const pairOf = (a: string, b: string): [string, string] => (a < b ? [a, b] : [b, a]);
+
+// Treaties between players. Part of the simulation: only changed through engine commands
+// and ticked with the engine, so every peer holds the same state.
+// Team membership is not a treaty, the engine checks it separately (see GameEngine.getRelation).
+export class Diplomacy {
+    private state: DiplomacyState;
+
+    constructor(state: DiplomacyState = { treaties: [], proposals: [], cooldowns: [] }) {
+        this.state = state;
+    }
+
+    getState(): DiplomacyState {
+        return JSON.parse(JSON.stringify(this.state));
+    }
+
+    get treaties(): readonly Treaty[] {
+        return this.state.treaties;
+    }
+
+    get proposals(): readonly TreatyProposal[] {
+        return this.state.proposals;
+    }
+
+    treatyBetween(a: string, b: string): Treaty | undefined {
+        const [x, y] = pairOf(a, b);
+        return this.state.treaties.find(t => t.playerIds[0] === x && t.playerIds[1] === y);
+    }
+
+    // Ticks left before the breaker may sign with the victim again, 0 if free to
+    cooldownTicks(breakerId: string, victimId: string, tick: number): number {
+        const c = this.state.cooldowns.find(c => c.breakerId === breakerId && c.victimId === victimId);
+        return c ? Math.max(0, c.untilTick - tick) : 0;
+    }
+
+    // Returns false if the proposal is not allowed. A matching proposal the other side
+    // already made is accepted on the spot.
+    propose(fromId: string, toId: string, type: TreatyType, tick: number): boolean {
+        if (fromId === toId) return false;
+        if (this.cooldownTicks(fromId, toId, tick) > 0) return false;
+
+        const existing = this.treatyBetween(fromId, toId);
+        if (existing && (existing.type === type || existing.type === 'ALLIANCE')) return false; // Nothing to gain
+
+        const reverse = this.state.proposals.find(p => p.fromId === toId && p.toId === fromId && p.type === type);
+        if (reverse) return this.answer(fromId, toId, true, tick);
+
+        this.state.proposals = this.state.proposals.filter(p => !(p.fromId === fromId && p.toId === toId));
+        this.state.proposals.push({ fromId, toId, type, expiresAtTick: tick + TREATY_PROPOSAL_TICKS });
+        return true;
+    }
+
+    answer(toId: string, fromId: string, accept: boolean, tick: number): boolean {
+        const proposal = this.state.proposals.find(p => p.fromId === fromId && p.toId === toId);
+        if (!proposal) return false;
+        this.state.proposals = this.state.proposals.filter(p => p !== proposal);
+        if (!accept) return true;
+
+        // Either side may have betrayed the other since the proposal was made
+        if (this.cooldownTicks(fromId, toId, tick) > 0 || this.cooldownTicks(toId, fromId, tick) > 0) return false;
+
+        const pair = pairOf(fromId, toId);
+        this.state.treaties = this.state.treaties.filter(t => !(t.playerIds[0] === pair[0] && t.playerIds[1] === pair[1]));
+        this.state.treaties.push({
+            playerIds: pair,
+            type: proposal.type,
+            signedAtTick: tick,
+            expiresAtTick: proposal.type === 'NON_AGGRESSION' ? tick + NON_AGGRESSION_TICKS : null
+        });
+        return true;
+    }
+
+    // Betrayal: the treaty ends at once and the breaker is barred from a new one with the victim
+    breakTreaty(breakerId: string, victimId: string, tick: number): boolean {
+        const treaty = this.treatyBetween(breakerId, victimId);
+        if (!treaty) return false;
+
+        this.state.treaties = this.state.treaties.filter(t => t !== treaty);
+        this.state.cooldowns = this.state.cooldowns.filter(c => !(c.breakerId === breakerId && c.victimId === victimId));
+        this.state.cooldowns.push({ breakerId, victimId, untilTick: tick + BETRAYAL_COOLDOWN_TICKS });
+        return true;
+    }
+
+    // A fallen player's treaties, pending envoys and grudges go with them
+    removePlayer(playerId: string) {
+        this.state.treaties = this.state.treaties.filter(t => !t.playerIds.includes(playerId));
+        this.state.proposals = this.state.proposals.filter(p => p.fromId !== playerId && p.toId !== playerId);
+        this.state.cooldowns = this.state.cooldowns.filter(c => c.breakerId !== playerId && c.victimId !== playerId);
+    }
+
+    // Drops lapsed pacts, proposals and cooldowns
+    update(tick: number) {
+        if (this.state.treaties.some(t => t.expiresAtTick !== null && t.expiresAtTick <= tick)) {
+            this.state.treaties = this.state.treaties.filter(t => t.expiresAtTick === null || t.expiresAtTick > tick);
+        }
+        if (this.state.proposals.some(p => p.expiresAtTick <= tick)) {
+            this.state.proposals = this.state.proposals.filter(p => p.expiresAtTick > tick);
+        }
+        if (this.state.cooldowns.some(c => c.untilTick <= tick)) {
+            this.state.cooldowns = this.state.cooldowns.filter(c => c.untilTick > tick);
+        }
+    }
+}
@@ -1,5 +1,11 @@
-import { BuildingType, GameConfig, Player, ResourceType, Tile, Unit, UnitType, Building, AttackWave, PlayerProfile, MatchLog, AIType } from '../types';
-import { BUILDING_STATS, BUILDING_COSTS, UNIT_STATS, PLAYER_COLORS, MAP_HEIGHT, MAP_WIDTH, UNIT_COSTS } from '../constants';
+import { BuildingType, GameConfig, Player, ResourceType, Tile, Unit, UnitType, Building, AttackWave, PlayerProfile, MatchLog, PlayerStanding, AIType, GameCommand, SavedGameState, MatchRules, Relation, GameMode, EliminationEvent, Formation, UnitOrder, UnitOrderType, ArmorClass, Coordinates } from '../types.ts';
+import { BUILDING_STATS, BUILDING_COSTS, UNIT_STATS, PLAYER_COLORS, MAP_HEIGHT, MAP_WIDTH, UNIT_COSTS, GAME_TICK_RATE, PLACEMENT_TICKS, DEFAULT_MATCH_RULES, BOT_DIFFICULTY_COMMITMENT, MAX_UNIT_ORDERS, DAMAGE_MULTIPLIERS, BOAT_CAPACITY, EMBARK_RANGE, BLOCKADE_RADIUS } from '../constants.ts';
+import { SeededRandom } from './Random.ts';
+import { Diplomacy } from './Diplomacy.ts';
+import { VictoryEvaluator } from './VictoryEvaluator.ts';
+import { canTraverse, findPath, isNavigable } from './Pathfinder.ts';
+import { formationSlots } from './formations.ts';
+import { serializeEngine, restoreEngine } from './serialization.ts';
 
 export class GameEngine {
     tiles: Tile[][] = [];
@@ -13,22 +19,45 @@ export class GameEngine {
     totalLandTiles: number = 0;
     isGameActive: boolean = false;
     wipeOutQueue: { tile: Tile, newOwnerId: string }[] = [];
+    seed: number;
+    rng: SeededRandom; // The ONLY source of randomness for the simulation
+    stepCount: number = 0; // Deterministic steps taken (placement + play), see step()
+    placementTicks: number = 0;
+    diplomacy: Diplomacy = new Diplomacy();
+    victory: VictoryEvaluator = new VictoryEvaluator();
+    eliminations: EliminationEvent[] = []; // In the order players fell
 
     constructor(config: GameConfig) {
         this.config = config;
+        this.seed = SeededRandom.randomSeed();
+        this.rng = new SeededRandom(this.seed);
         this.generateMap(); // Initialize map immediately to prevent render crashes
     }
 
-    // Updated Init to accept Lobby Roster and Map Data
-    init(roster: PlayerProfile[], mapData?: any) {
+    // Updated Init to accept Lobby Roster, Map Data, the match seed and the host's rules.
+    // Same roster + map + seed + rules + commands => same match.
+    init(roster: PlayerProfile[], mapData?: any, seed: number = SeededRandom.randomSeed(), rules: MatchRules = DEFAULT_MATCH_RULES) {
         this.winnerId = null;
         this.isGameActive = false; // Reset game state
-
+        this.seed = seed >>> 0;
+        this.rng = new SeededRandom(this.seed);
+        this.wipeOutQueue = [];
+        this.diplomacy = new Diplomacy();
+        this.victory = new VictoryEvaluator();
+        this.eliminations = [];
+        this.stepCount = 0;
+        this.placementTicks = 0;
+
+        // Always draw the terrain seed so RNG state is identical whether the map
+        // is generated here or loaded from exported terrain (lockstep clients)
+        const terrainSeed = this.rng.next() * 10000;
         if (mapData && mapData.tiles && mapData.tiles.length > 0) {
             this.loadMap(mapData);
         } else {
-            this.generateMap();
+            this.generateMap(terrainSeed);
         }
+        this.config.mapName = mapData?.name || 'Procedural Lands';
+        this.config.rules = { ...rules, mode: { ...rules.mode } };
 
         this.setupPlayers(roster);
         this.spawnBotBases();
@@ -38,6 +67,112 @@ export class GameEngine {
         this.timeAccumulator = 0; // Reset accumulator
     }
 
+    // Prepares a non-simulating replica of a server-hosted match.
+    // Bots are NOT spawned here: ownership arrives through applyStateSync.
+    initClient(roster: PlayerProfile[], mapData: any, rules: MatchRules = DEFAULT_MATCH_RULES) {
+        this.winnerId = null;
+        this.isGameActive = false;
+        this.config.rules = { ...rules, mode: { ...rules.mode } };
+
+        this.loadMap(mapData);
+        this.setupPlayers(roster);
+        this.logicAttacks = [];
+        this.attacks = [];
+        this.wipeOutQueue = [];
+        this.diplomacy = new Diplomacy();
+        this.victory = new VictoryEvaluator();
+        this.eliminations = [];
+        this.tickCount = 0;
+        this.stepCount = 0;
+        this.placementTicks = 0;
+        this.timeAccumulator = 0;
+    }
+
+    // Complete versioned snapshot (save/load, crash recovery, lockstep resync)
+    serialize(): SavedGameState {
+        return serializeEngine(this);
+    }
+
+    deserialize(save: SavedGameState) {
+        restoreEngine(this, save);
+    }
+
+    // Flat terrain export ([type, elev, type, elev...]) so clients can rebuild
+    // the exact map the server is simulating, even when it was generated procedurally.
+    exportTerrain(): { width: number, height: number, tiles: number[] } {
+        const tiles: number[] = [];
+        for (let y = 0; y < this.config.mapHeight; y++) {
+            for (let x = 0; x < this.config.mapWidth; x++) {
+                const tile = this.tiles[y][x];
+                tiles.push(tile.type === 'LAND' ? 1 : 0, tile.elevation);
+            }
+        }
+        return { width: this.config.mapWidth, height: this.config.mapHeight, tiles };
+    }
+
+    // Single entry point for player intents (local or networked).
+    // Returns false if the command was rejected.
+    applyCommand(cmd: GameCommand): boolean {
+        const player = this.getPlayer(cmd.playerId);
+        // The fallen only watch, in particular they don't get to place a new keep
+        if (!player || this.isEliminated(player)) return false;
+
+        // Commands come straight off the wire: a position must be a tile of the map, anything else
+        // would index past the grid and throw inside the host's tick
+        const positional = cmd.type !== 'PROPOSE_TREATY' && cmd.type !== 'ANSWER_TREATY' && cmd.type !== 'BREAK_TREATY';
+        if (positional && (!Number.isInteger(cmd.x) || !Number.isInteger(cmd.y) || !this.isValid(cmd.x, cmd.y))) return false;
+
+        switch (cmd.type) {
+            case 'EXPAND':
+                if (!this.isGameActive || !Number.isFinite(cmd.percentage)) return false;
+                this.distributeExpansion(cmd.playerId, cmd.x, cmd.y, Math.max(1, Math.min(100, cmd.percentage)));
+                return true;
+            case 'BUILD':
+                if (!this.isGameActive || !Object.values(BuildingType).includes(cmd.buildingType) || cmd.buildingType === BuildingType.KINGDOM) return false;
+                if (!this.canBuild(cmd.playerId, cmd.buildingType, cmd.x, cmd.y)) return false;
+                this.placeBuilding(cmd.playerId, cmd.buildingType, cmd.x, cmd.y);
+                return true;
+            case 'SPAWN_UNIT':
+                if (!this.isGameActive || !Object.values(UnitType).includes(cmd.unitType)) return false;
+                if (!this.canSpawnUnit(cmd.playerId, cmd.unitType, cmd.x, cmd.y)) return false;
+                this.spawnUnit(cmd.playerId, cmd.unitType, cmd.x, cmd.y);
+                return true;
+            case 'MOVE_UNIT':
+                if (!this.isGameActive) return false;
+                this.moveUnit(cmd.playerId, cmd.unitId, cmd.x, cmd.y);
+                return true;
+            case 'MOVE_UNITS':
+                if (!this.isGameActive || !Array.isArray(cmd.unitIds)) return false;
+                if (cmd.formation !== 'LINE' && cmd.formation !== 'WEDGE' && cmd.formation !== 'COLUMN') return false;
+                return this.moveUnits(cmd.playerId, cmd.unitIds, cmd.x, cmd.y, cmd.formation);
+            case 'ORDER_UNITS':
+                if (!this.isGameActive || !Array.isArray(cmd.unitIds)) return false;
+                if (!['MOVE', 'ATTACK_MOVE', 'ATTACK', 'PATROL', 'HOLD', 'STOP', 'EMBARK', 'UNLOAD'].includes(cmd.order)) return false;
+                if (cmd.formation !== 'LINE' && cmd.formation !== 'WEDGE' && cmd.formation !== 'COLUMN') return false;
+                return this.orderUnits(cmd.playerId, cmd.unitIds, cmd.order, cmd.x, cmd.y, cmd.formation, cmd.queue === true);
+            case 'SPAWN_BASE':
+                // One keep per player, only before they own land
+                if (player.ownedTiles.length > 0) return false;
+                return this.spawnHumanBase(cmd.playerId, cmd.x, cmd.y);
+            case 'PROPOSE_TREATY': {
+                // Camps are brigands, they sign nothing. Teammates need no treaty.
+                const target = this.getPlayer(cmd.targetId);
+                if (!this.isGameActive || !target || target.aiType === AIType.CAMP) return false;
+                if (cmd.treaty !== 'NON_AGGRESSION' && cmd.treaty !== 'ALLIANCE') return false;
+                if (this.getRelation(cmd.playerId, cmd.targetId) === 'TEAM') return false;
+                return this.diplomacy.propose(cmd.playerId, cmd.targetId, cmd.treaty, this.tickCount);
+            }
+            case 'ANSWER_TREATY':
+                if (!this.isGameActive) return false;
+                return this.diplomacy.answer(cmd.playerId, cmd.fromId, !!cmd.accept, this.tickCount);
+            case 'BREAK_TREATY':
+                if (!this.isGameActive) return false;
+                return this.diplomacy.breakTreaty(cmd.playerId, cmd.targetId, this.tickCount);
+            default:
+                return false;
+        }
+    }
+
     loadMap(mapData: any) {
         this.tiles = [];
         this.totalLandTiles = 0;
@@ -168,14 +303,12 @@ export class GameEngine {
         return total / maxValue;
     }
 
-    generateMap() {
+    generateMap(seed: number = this.rng.next() * 10000) {
         const w = this.config.mapWidth;
         const h = this.config.mapHeight;
         this.tiles = [];
         this.totalLandTiles = 0;
 
-        const seed = Math.random() * 10000;
-
         for (let y = 0; y < h; y++) {
             const row: Tile[] = [];
             for (let x = 0; x < w; x++) {
@@ -235,7 +368,7 @@ export class GameEngine {
     setupPlayers(roster: PlayerProfile[]) {
         this.players = [];
         roster.forEach(p => {
-            this.players.push(this.createPlayer(p.id, p.name, p.color, p.isAI, p.aiType));
+            this.players.push(this.createPlayer(p.id, p.name, p.color, p.isAI, p.aiType, this.rules.teams > 0 ? p.teamId ?? null : null));
         });
     }
 
@@ -243,7 +376,29 @@ export class GameEngine {
         return this.players.find(p => p.id === id);
     }
 
-    createPlayer(id: string, name: string, color: string, isAI: boolean, aiType: AIType): Player {
+    getRelation(aId: string, bId: string): Relation {
+        if (aId === bId) return 'SELF';
+        const a = this.getPlayer(aId);
+        const b = this.getPlayer(bId);
+        if (a && b && a.teamId !== null && a.teamId === b.teamId) return 'TEAM';
+        return this.diplomacy.treatyBetween(aId, bId)?.type ?? 'WAR';
+    }
+
+    // Teammates or sworn allies: their land shields ours. A player is not their own ally.
+    areAllies(aId: string | null, bId: string | null): boolean {
+        if (!aId || !bId) return false;
+        const relation = this.getRelation(aId, bId);
+        return relation === 'TEAM' || relation === 'ALLIANCE';
+    }
+
+    // Two different players who may not attack each other (team, alliance or pact)
+    isAtPeace(aId: string | null, bId: string | null): boolean {
+        if (!aId || !bId) return false;
+        const relation = this.getRelation(aId, bId);
+        return relation !== 'SELF' && relation !== 'WAR';
+    }
+
+    createPlayer(id: string, name: string, color: string, isAI: boolean, aiType: AIType, teamId: number | null = null): Player {
         return {
             id,
             name,
@@ -259,7 +414,10 @@ export class GameEngine {
             units: [],
             center: { x: 0, y: 0 },
             landArea: 0,
-            ownedTiles: []
+            ownedTiles: [],
+            stats: { peakLand: 0, buildingsBuilt: 0, unitsRaised: 0, eliminatedAtTick: null },
+            teamId,
+            lastAttackerId: null
         };
     }
 
@@ -276,8 +434,8 @@ export class GameEngine {
 
             // Try X random locations and pick the one with best distance
             for (let i = 0; i < 30; i++) {
-                const rx = Math.floor(Math.random() * this.config.mapWidth);
-                const ry = Math.floor(Math.random() * this.config.mapHeight);
+                const rx = this.rng.nextInt(this.config.mapWidth);
+                const ry = this.rng.nextInt(this.config.mapHeight);
 
                 if (this.isValidSpawn(rx, ry)) {
                     let minDist = 9999;
@@ -374,8 +532,8 @@ export class GameEngine {
         let maxMinDist = -1;
 
         for (let i = 0; i < 50; i++) {
-            const rx = Math.floor(Math.random() * this.config.mapWidth);
-            const ry = Math.floor(Math.random() * this.config.mapHeight);
+            const rx = this.rng.nextInt(this.config.mapWidth);
+            const ry = this.rng.nextInt(this.config.mapHeight);
 
             if (this.isValidSpawn(rx, ry)) {
                 let minDist = 9999;
@@ -467,7 +625,7 @@ export class GameEngine {
         const targetTile = this.tiles[clickY][clickX];
         const targetOwner = targetTile.ownerId;
 
-        if (targetOwner === playerId) return;
+        if (targetOwner === playerId || this.isAtPeace(playerId, targetOwner)) return;
 
         const player = this.players.find(p => p.id === playerId);
         if (!player || player.population <= 2) return;
@@ -486,9 +644,18 @@ export class GameEngine {
 
             const targetOwner = player.attackTarget;
 
+            // Peace was made while the troops were mustering: they go home
+            if (this.isAtPeace(player.id, targetOwner)) {
+                player.population += player.militaryPopulation;
+                player.militaryPopulation = 0;
+                player.attackTarget = null;
+                return;
+            }
+
             let castleX = this.config.mapWidth / 2;
             let castleY = this.config.mapHeight / 2;
-            const castleTile = this.tiles.flat().find(t => (t.building?.type === BuildingType.KINGDOM || t.building?.type === BuildingType.CASTLE) && t.ownerId === player.id);
+            // Scan the owned-tile cache, flattening the full grid per player is too slow to tick server-side
+            const castleTile = player.ownedTiles.find(t => t.building?.type === BuildingType.KINGDOM || t.building?.type === BuildingType.CASTLE);
             if (castleTile) {
                 castleX = castleTile.x;
                 castleY = castleTile.y;
@@ -561,14 +728,14 @@ export class GameEngine {
 
     createAttack(playerId: string, sx: number, sy: number, tx: number, ty: number, power: number, color: string) {
         this.logicAttacks.push({
-            id: Math.random().toString(36).substr(2, 9),
+            id: this.rng.nextId(),
             ownerId: playerId,
             x: sx,
             y: sy,
             targetX: tx,
             targetY: ty,
             power: power,
-            speed: 0.2 + (Math.random() * 0.1),
+            speed: 0.2 + (this.rng.next() * 0.1),
             color: color
         });
     }
@@ -586,14 +753,13 @@ export class GameEngine {
             // Or, if we want to simulate travel, we need to update their position here too
             // For now, let's make them instant for logic purposes, and visuals handle travel
             // If we want logic to travel, we need to scale speed by 100ms (logic tick duration)
-            const move = Math.min(dist, atk.speed); // atk.speed is tiles per 100ms
-
-            if (dist < move) { // If it would reach or pass target
+            // atk.speed is tiles per 100ms
+            if (dist <= atk.speed) { // If it would reach or pass target
                 this.applyAttack(atk);
                 this.logicAttacks.splice(i, 1);
             } else {
-                atk.x += (dx / dist) * move;
-                atk.y += (dy / dist) * move;
+                atk.x += (dx / dist) * atk.speed;
+                atk.y += (dy / dist) * atk.speed;
             }
         }
     }
@@ -619,6 +785,9 @@ export class GameEngine {
 
             tilesProcessed++;
 
+            // Land of anyone we are at peace with is a wall: the wave neither damages nor passes through it
+            if (this.isAtPeace(current.ownerId, tile.ownerId)) continue;
+
             // 1. Calculate Damage (10 Pop = 1 Dmg)
             const damage = Math.max(0.1, current.power / 10);
 
@@ -649,7 +818,10 @@ export class GameEngine {
                     // Won!
                     if (tile.ownerId) {
                         const oldP = this.players.find(p => p.id === tile.ownerId);
-                        if (oldP) oldP.ownedTiles = oldP.ownedTiles.filter(t => t !== tile);
+                        if (oldP) {
+                            oldP.ownedTiles = oldP.ownedTiles.filter(t => t !== tile);
+                            oldP.lastAttackerId = current.ownerId;
+                        }
                     }
 
                     tile.ownerId = current.ownerId;
@@ -676,7 +848,7 @@ export class GameEngine {
                             if (this.isValid(nx, ny)) {
                                 const nt = this.tiles[ny][nx];
                                 // Only expand into enemy/neutral
-                                if (nt.ownerId !== current.ownerId) {
+                                if (nt.ownerId !== current.ownerId && !this.isAtPeace(current.ownerId, nt.ownerId)) {
                                     validNeighbors.push({ x: nx, y: ny });
                                 }
                             }
@@ -754,7 +926,10 @@ export class GameEngine {
                 // Remove from old owner (Cache update)
                 if (tile.ownerId) {
                     const oldP = this.players.find(p => p.id === tile.ownerId);
-                    if (oldP) oldP.ownedTiles = oldP.ownedTiles.filter(t => t !== tile);
+                    if (oldP) {
+                        oldP.ownedTiles = oldP.ownedTiles.filter(t => t !== tile);
+                        oldP.lastAttackerId = newOwnerId;
+                    }
                 }
 
                 tile.ownerId = newOwnerId;
@@ -835,9 +1010,17 @@ export class GameEngine {
                     continue;
                 }
 
+                // Land touching a teammate or ally is never cut off
+                if ([...boundary].some(id => this.areAllies(owner, id))) {
+                    continue;
+                }
+
                 if (boundary.size === 1) {
                     const capturerId = boundary.values().next().value;
-                    this.captureComponent(component, capturerId);
+                    // A pact partner surrounding us doesn't get to swallow the pocket
+                    if (!this.isAtPeace(owner, capturerId)) {
+                        this.captureComponent(component, capturerId);
+                    }
                 }
             }
         }
@@ -850,7 +1033,10 @@ export class GameEngine {
             if (t.ownerId) {
                 const oldP = this.players.find(p => p.id === t.ownerId);
                 // Slow filter, but captures are rare events
-                if (oldP) oldP.ownedTiles = oldP.ownedTiles.filter(ot => ot !== t);
+                if (oldP) {
+                    oldP.ownedTiles = oldP.ownedTiles.filter(ot => ot !== t);
+                    oldP.lastAttackerId = newOwnerId;
+                }
             }
 
             t.ownerId = newOwnerId;
@@ -876,37 +1062,35 @@ export class GameEngine {
         // Visual attacks removed per user request (no rendering in GameCanvas)
         // The attacks[] array is no longer used
 
-        // Update Units Movement (Smooth)
+        // Update Units Movement (Smooth), waypoint by waypoint along the unit's path
         this.players.forEach(p => {
             p.units.forEach(unit => {
-                if (unit.targetX !== undefined && unit.targetY !== undefined) {
-                    const dx = unit.targetX - unit.x;
-                    const dy = unit.targetY - unit.y;
+                const waypoint = unit.path?.[0];
+                if (waypoint) {
+                    const dx = waypoint.x - unit.x;
+                    const dy = waypoint.y - unit.y;
                     const dist = Math.sqrt(dx * dx + dy * dy);
 
-                    // Logic from old updateUnits (now run every frame)
-                    // We need to scale speed by dt
-                    if (dist <= 0.2) {
-                        // Arrival handled in main Logic Tick or here?
-                        // Let's keep logic separation:
-                        // Movement integration is Frame-based (visual).
-                        // State changes (Idle, Finding Target) are Logic-based.
-                        // But if we stop moving here, we might jitter waiting for logic tick.
-                        // Let's just update Position here.
-                    } else {
-                        const currentTileX = Math.floor(unit.x);
-                        const currentTileY = Math.floor(unit.y);
-                        const currentTile = this.isValid(currentTileX, currentTileY) ? this.tiles[currentTileY][currentTileX] : null;
+                    const currentTileX = Math.floor(unit.x);
+                    const currentTileY = Math.floor(unit.y);
+                    const currentTile = this.isValid(currentTileX, currentTileY) ? this.tiles[currentTileY][currentTileX] : null;
 
-                        let speedMod = 1.0;
-                        if (currentTile && currentTile.type === 'LAND') {
-                            speedMod = 1.0 - (currentTile.elevation / 25);
-                        }
+                    let speedMod = 1.0;
+                    if (currentTile && currentTile.type === 'LAND') {
+                        speedMod = 1.0 - (currentTile.elevation / 25);
+                    }
 
-                        // Normalizing: unit.speed (e.g. 0.5) is "tiles per 100ms tick". 
-                        // So Tiles/ms = speed / 100.
-                        // Move = (speed / 100) * dt.
-                        const move = Math.min(dist, (unit.speed / 100) * dt * speedMod);
+                    // Normalizing: unit.speed (e.g. 0.5) is "tiles per 100ms tick". 
+                    // So Tiles/ms = speed / 100.
+                    // Move = (speed / 100) * dt.
+                    const move = (unit.speed / 100) * dt * speedMod;
+                    if (move >= dist) {
+                        // Snap onto the waypoint: cutting the corner could clip a tile the path avoids.
+                        // Arrival at the last one is a state change, handled in the logic tick.
+                        unit.x = waypoint.x;
+                        unit.y = waypoint.y;
+                        if (unit.path!.length > 1) unit.path!.shift();
+                    } else {
                         unit.x += (dx / dist) * move;
                         unit.y += (dy / dist) * move;
                     }
@@ -922,12 +1106,90 @@ export class GameEngine {
         }
     }
 
+    // One fixed-size simulation step with the commands scheduled for it.
+    // This is the unit shared by the server host and lockstep clients, so it
+    // must never depend on wall-clock time.
+    step(commands: GameCommand[] = []) {
+        this.stepCount++;
+        commands.forEach(cmd => this.applyCommand(cmd));
+
+        if (this.isGameActive) {
+            this.update(GAME_TICK_RATE);
+        } else {
+            this.updatePlacement();
+        }
+    }
+
+    // Simulation is frozen until every human has a keep or the placement window closes
+    updatePlacement() {
+        this.placementTicks++;
+        const unplaced = this.players.filter(p => !p.isAI && p.ownedTiles.length === 0);
+
+        if (unplaced.length > 0 && this.placementTicks < PLACEMENT_TICKS) return;
+
+        unplaced.forEach(p => this.spawnHumanRandomly(p.id));
+        this.startMatch();
+    }
+
+    // FNV-1a hash of the simulation state, compared between peers to detect desyncs
+    computeChecksum(): number {
+        let hash = 0x811c9dc5;
+        const mix = (n: number) => {
+            let v = Math.round(n * 1000) | 0;
+            for (let i = 0; i < 4; i++) {
+                hash ^= v & 0xff;
+                hash = Math.imul(hash, 0x01000193);
+                v >>>= 8;
+            }
+        };
+
+        const playerIndex = new Map(this.players.map((p, i) => [p.id, i]));
+        mix(this.stepCount);
+        mix(this.tickCount);
+        mix(this.rng.getState());
+
+        for (let y = 0; y < this.config.mapHeight; y++) {
+            for (let x = 0; x < this.config.mapWidth; x++) {
+                const tile = this.tiles[y][x];
+                if (!tile.ownerId && !tile.building) continue;
+                mix(y * this.config.mapWidth + x);
+                mix(tile.ownerId ? playerIndex.get(tile.ownerId) ?? -2 : -1);
+                mix(tile.defense);
+                if (tile.building) mix(tile.building.hp);
+            }
+        }
+
+        this.players.forEach(p => {
+            mix(p.population);
+            mix(p.militaryPopulation);
+            mix(p.resources[ResourceType.GOLD]);
+            mix(p.resources[ResourceType.WOOD]);
+            mix(p.resources[ResourceType.STONE]);
+            mix(p.resources[ResourceType.FOOD]);
+            p.units.forEach(u => {
+                mix(u.x);
+                mix(u.y);
+                mix(u.hp);
+                mix(u.cargo?.length ?? 0);
+            });
+        });
+
+        mix(this.logicAttacks.length);
+        mix(this.wipeOutQueue.length);
+        mix(this.diplomacy.treaties.length);
+        mix(this.diplomacy.proposals.length);
+        mix(this.eliminations.length);
+        return hash >>> 0;
+    }
+
     updateLogicTick() {
         this.tickCount++;
+        this.diplomacy.update(this.tickCount);
 
         // 1. Economy
         if (this.tickCount % 10 === 0) {
             this.updateEconomy();
+            this.checkVictory();
             this.updateAI();
         }
 
@@ -1020,6 +1282,7 @@ export class GameEngine {
         }
 
         // Apply calculated stats
+        const fallen: Player[] = [];
         this.players.forEach(p => {
             const stats = playerStats[p.id];
             if (!stats) return;
@@ -1041,6 +1304,10 @@ export class GameEngine {
             if (stats.landCount > 0) {
                 p.center = { x: stats.sumX / stats.landCount, y: stats.sumY / stats.landCount };
             }
+            p.stats.peakLand = Math.max(p.stats.peakLand, stats.landCount);
+            if (stats.landCount === 0 && p.stats.peakLand > 0 && !this.isEliminated(p)) {
+                fallen.push(p);
+            }
 
             // Update Max Pop
             p.maxPopulation = Math.max(100, stats.maxPop); // Min 100
@@ -1065,22 +1332,46 @@ export class GameEngine {
             if (p.population > p.maxPopulation) {
                 p.population = p.maxPopulation;
             }
+        });
 
-            // WIN CONDITION: > 80% of total land
-            if (this.totalLandTiles > 0 && stats.landCount / this.totalLandTiles > 0.8) {
-                this.winnerId = p.id;
-            }
+        fallen.forEach(p => this.eliminatePlayer(p));
+    }
+
+    isEliminated(player: Player): boolean {
+        return player.stats.eliminatedAtTick !== null;
+    }
+
+    // A player lost their last tile: record who finished them and strip everything
+    // they still had in flight. They stay in `players` (standings, spectating humans).
+    eliminatePlayer(player: Player) {
+        const eliminatedById = player.lastAttackerId && this.getPlayer(player.lastAttackerId) ? player.lastAttackerId : null;
+        player.stats.eliminatedAtTick = this.tickCount;
+        this.eliminations.push({ playerId: player.id, eliminatedById, tick: this.tickCount });
+
+        player.units = [];
+        player.population = 0;
+        player.militaryPopulation = 0;
+        player.attackTarget = null;
+
+        this.logicAttacks = this.logicAttacks.filter(a => a.ownerId !== player.id);
+        this.wipeOutQueue = this.wipeOutQueue.filter(item => item.newOwnerId !== player.id);
+        this.diplomacy.removePlayer(player.id);
+
+        // Troops mustered against them have nobody left to fight and go home
+        this.players.forEach(p => {
+            if (p.attackTarget !== player.id) return;
+            p.population += p.militaryPopulation;
+            p.militaryPopulation = 0;
+            p.attackTarget = null;
         });
+    }
 
-        // GAME OVER CONDITION: No human players with land remaining
-        if (this.isGameActive) {
-            const humanAlive = this.players.some(p => !p.isAI && playerStats[p.id].landCount > 0);
-            if (!humanAlive && this.players.some(p => !p.isAI)) {
-                // Game Over for human (Defeat)
-                // Set winner to the top performing AI to trigger end screen
-                let topAI = this.players.filter(p => p.isAI).sort((a, b) => playerStats[b.id].landCount - playerStats[a.id].landCount)[0];
-                this.winnerId = topAI ? topAI.id : 'AI_WINNER';
-            }
+    // Win conditions of the match's GameMode, on the land counts the economy just refreshed.
+    // Team wins are recorded as the side's largest member, standings credit the whole team.
+    checkVictory() {
+        const winnerId = this.victory.evaluate(this, 10);
+        if (winnerId && !this.winnerId) {
+            this.winnerId = winnerId;
         }
     }
 
@@ -1103,16 +1394,14 @@ export class GameEngine {
         if (!this.isValid(x, y)) return false;
         const tile = this.tiles[y][x];
 
-        // Terrain check
+        // Boats are launched from our piers, everyone else musters on our own territory
         if (type === UnitType.BOAT) {
-            if (tile.type !== 'WATER') return false;
+            if (!this.findSlip(playerId, x, y)) return false;
         } else {
             if (tile.type !== 'LAND') return false;
+            if (tile.ownerId !== playerId) return false;
         }
 
-        // Ownership check (must spawn on own territory)
-        if (tile.ownerId !== playerId) return false;
-
         // Resources check (Double check)
         const player = this.players.find(p => p.id === playerId);
         if (!player) return false;
@@ -1127,17 +1416,195 @@ export class GameEngine {
         return true;
     }
 
+    // Where a boat launched at (x, y) takes the water: that tile when it is open water next to one of our
+    // finished piers, or the first open water around the pier when the pier itself was picked.
+    findSlip(playerId: string, x: number, y: number): Coordinates | null {
+        const around = [{ x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 1, y: -1 }, { x: 1, y: 1 }, { x: -1, y: 1 }, { x: -1, y: -1 }];
+        const isOurPier = (tx: number, ty: number) => {
+            const b = this.isValid(tx, ty) ? this.tiles[ty][tx].building : null;
+            return !!b && b.type === BuildingType.PIER && b.ownerId === playerId && !b.isUnderConstruction;
+        };
+        const isOpenWater = (tx: number, ty: number) => this.isValid(tx, ty) && canTraverse(this.tiles[ty][tx], UnitType.BOAT);
+
+        if (isOurPier(x, y)) {
+            const slip = around.find(d => isOpenWater(x + d.x, y + d.y));
+            return slip ? { x: x + slip.x, y: y + slip.y } : null;
+        }
+        return isOpenWater(x, y) && around.some(d => isOurPier(x + d.x, y + d.y)) ? { x, y } : null;
+    }
+
     moveUnit(playerId: string, unitId: string, x: number, y: number) {
-        const player = this.players.find(p => p.id === playerId);
-        if (!player) return;
+        this.orderUnits(playerId, [unitId], 'MOVE', x, y, 'LINE', false);
+    }
+
+    // Group order: the units march to (x, y) and line up there in formation, facing the way they came.
+    // Returns false if none of the ids is one of the player's units.
+    moveUnits(playerId: string, unitIds: string[], x: number, y: number, formation: Formation): boolean {
+        return this.orderUnits(playerId, unitIds, 'MOVE', x, y, formation, false);
+    }
+
+    // Gives the player's units an order. MOVE, ATTACK_MOVE and PATROL spread the group over formation
+    // slots around (x, y); ATTACK sends everyone after the enemy there (see findAttackTarget).
+    // With `queue` the order waits for the ones already given, otherwise it replaces them.
+    // Returns false if none of the ids is one of the player's units, or if there is nothing to attack.
+    orderUnits(playerId: string, unitIds: string[], order: UnitOrderType, x: number, y: number, formation: Formation, queue: boolean): boolean {
+        const player = this.getPlayer(playerId);
+        if (!player) return false;
+
+        const ids = new Set(unitIds);
+        const units = player.units.filter(u => ids.has(u.id)); // Roster order, not the client's
+        if (units.length === 0) return false;
+
+        if (order === 'STOP') {
+            units.forEach(u => {
+                u.orders = [];
+                this.clearDestination(u);
+                u.stationed = true;
+                u.idleTicks = 0;
+            });
+            return true;
+        }
+        if (order === 'HOLD') {
+            units.forEach(u => this.giveOrder(u, { type: 'HOLD' }, queue));
+            return true;
+        }
+        if (order === 'ATTACK') {
+            const target = this.findAttackTarget(playerId, x, y);
+            if (!target) return false;
+            units.forEach(u => this.giveOrder(u, { type: 'ATTACK', ...target }, queue));
+            return true;
+        }
+        // Transport orders only concern one side of a mixed group
+        if (order === 'EMBARK') {
+            const boat = this.findBoatAt(playerId, x, y);
+            const walkers = units.filter(u => u.type !== UnitType.BOAT);
+            if (!boat || walkers.length === 0) return false;
+            walkers.forEach(u => this.giveOrder(u, { type: 'EMBARK', boatId: boat.id }, queue));
+            return true;
+        }
+        if (order === 'UNLOAD') {
+            const boats = units.filter(u => u.type === UnitType.BOAT);
+            if (boats.length === 0) return false;
+            boats.forEach(u => this.giveOrder(u, { type: 'UNLOAD', x, y }, queue));
+            return true;
+        }
+
+        // Queued orders start where the previous one ends, not where the unit stands now
+        const origins = units.map(u => this.orderOrigin(u, queue));
+        const cx = origins.reduce((sum, o) => sum + o.x, 0) / units.length;
+        const cy = origins.reduce((sum, o) => sum + o.y, 0) / units.length;
+        const slots = formationSlots(units.length, formation, { x: x - cx, y: y - cy });
+
+        // Front rank first, each slot takes the closest unit still free, so the group doesn't criss-cross
+        const free = units.map((unit, i) => ({ unit, origin: origins[i] }));
+        slots.forEach(slot => {
+            const sx = Math.max(0, Math.min(this.config.mapWidth - 1, x + slot.x));
+            const sy = Math.max(0, Math.min(this.config.mapHeight - 1, y + slot.y));
+            const dist = (o: { x: number, y: number }) => (o.x - sx) ** 2 + (o.y - sy) ** 2;
+            let closest = 0;
+            for (let i = 1; i < free.length; i++) {
+                if (dist(free[i].origin) < dist(free[closest].origin)) closest = i;
+            }
+            const { unit, origin } = free.splice(closest, 1)[0];
+            this.giveOrder(unit, order === 'PATROL'
+                ? { type: 'PATROL', x: sx, y: sy, fromX: origin.x, fromY: origin.y }
+                : { type: order, x: sx, y: sy }, queue);
+        });
+        return true;
+    }
 
-        const unit = player.units.find(u => u.id === unitId);
-        if (unit) {
-            unit.targetX = x;
-            unit.targetY = y;
-            unit.hasCommand = true;
-            unit.idleTicks = 0;
+    // What an ATTACK order at tile (x, y) goes after: an enemy unit within a tile of it, else an enemy building on it.
+    // Allies and treaty partners are never a target.
+    findAttackTarget(playerId: string, x: number, y: number): { targetUnitId: string | null, x: number, y: number } | null {
+        let nearest: Unit | null = null;
+        let nearestDist = 1;
+        for (const p of this.players) {
+            if (p.id === playerId || this.isAtPeace(playerId, p.id)) continue;
+            for (const u of p.units) {
+                const d = Math.sqrt((u.x - x) ** 2 + (u.y - y) ** 2);
+                if (u.hp > 0 && d <= nearestDist) {
+                    nearest = u;
+                    nearestDist = d;
+                }
+            }
+        }
+        if (nearest) return { targetUnitId: nearest.id, x: nearest.x, y: nearest.y };
+
+        const building = this.isValid(x, y) ? this.tiles[y][x].building : null;
+        if (building && building.ownerId !== playerId && !this.isAtPeace(playerId, building.ownerId)) {
+            return { targetUnitId: null, x, y };
+        }
+        return null;
+    }
+
+    // One of the player's boats within a tile of (x, y), the closest one: where an EMBARK order goes aboard
+    findBoatAt(playerId: string, x: number, y: number): Unit | null {
+        let nearest: Unit | null = null;
+        let nearestDist = 1;
+        for (const u of this.getPlayer(playerId)?.units ?? []) {
+            const d = Math.sqrt((u.x - x) ** 2 + (u.y - y) ** 2);
+            if (u.type === UnitType.BOAT && u.hp > 0 && d <= nearestDist) {
+                nearest = u;
+                nearestDist = d;
+            }
+        }
+        return nearest;
+    }
+
+    private giveOrder(unit: Unit, order: UnitOrder, queue: boolean) {
+        if (queue && unit.orders.length > 0) {
+            // Holding never ends: whatever comes next takes its place
+            if (unit.orders[unit.orders.length - 1].type === 'HOLD') unit.orders.pop();
+            if (unit.orders.length >= MAX_UNIT_ORDERS) return;
+            unit.orders.push(order);
+        } else {
+            unit.orders = [order];
+            this.clearDestination(unit);
+        }
+        unit.stationed = true;
+        unit.idleTicks = 0;
+    }
+
+    // Where the unit will be once its orders so far are carried out
+    private orderOrigin(unit: Unit, queue: boolean): { x: number, y: number } {
+        if (queue) {
+            for (let i = unit.orders.length - 1; i >= 0; i--) {
+                const order = unit.orders[i];
+                if ('x' in order) return { x: order.x, y: order.y };
+            }
         }
+        return { x: unit.x, y: unit.y };
+    }
+
+    // Points the unit at (x, y) along a freshly planned path.
+    // Unreachable spots (across water for soldiers, inland for boats) bring it as close as it can get.
+    setUnitDestination(unit: Unit, x: number, y: number) {
+        unit.targetX = x;
+        unit.targetY = y;
+        unit.path = findPath(this.tiles, unit, { x, y }, unit.type);
+    }
+
+    private clearDestination(unit: Unit) {
+        unit.targetX = undefined;
+        unit.targetY = undefined;
+        unit.path = undefined;
+    }
+
+    // Same destination as before: keep the path, planning one is not free
+    private marchTo(unit: Unit, x: number, y: number) {
+        if (unit.targetX !== x || unit.targetY !== y || !unit.path) this.setUnitDestination(unit, x, y);
+    }
+
+    // At the end of the path: the destination, or as close as the terrain allows
+    private reachedPathEnd(unit: Unit): boolean {
+        const end = unit.path?.[0];
+        if (!end) return true;
+        return unit.path!.length === 1 && Math.sqrt((end.x - unit.x) ** 2 + (end.y - unit.y) ** 2) <= 0.2; // Tolerance
+    }
+
+    private completeOrder(unit: Unit) {
+        unit.orders.shift();
+        this.clearDestination(unit);
     }
 
     updateUnitsState() {
@@ -1149,26 +1616,24 @@ export class GameEngine {
                     p.units.splice(i, 1);
                     continue;
                 }
+                if (unit.cooldownTicks > 0) unit.cooldownTicks--;
 
-                // 1. ARRIVAL CHECK (Movement is handled in update(dt))
-                if (unit.targetX !== undefined && unit.targetY !== undefined) {
-                    const dx = unit.targetX - unit.x;
-                    const dy = unit.targetY - unit.y;
-                    const dist = Math.sqrt(dx * dx + dy * dy);
+                // Something was built in our way since the path was planned (the destination itself may hold one)
+                const next = unit.path?.[0];
+                if (next && unit.path!.length > 1 && !canTraverse(this.tiles[Math.floor(next.y)][Math.floor(next.x)], unit.type)) {
+                    this.setUnitDestination(unit, unit.targetX!, unit.targetY!);
+                }
 
-                    // Reached destination?
-                    if (dist <= 0.2) { // Tolerance
-                        if (unit.hasCommand) {
-                            // Command complete, enter idle
-                            unit.hasCommand = false;
-                            unit.targetX = undefined;
-                            unit.targetY = undefined;
-                        } else {
-                            // Wander/Attack Move complete
-                            unit.targetX = undefined;
-                            unit.targetY = undefined;
-                        }
-                    }
+                // Player orders come first, idle behavior only once they are all carried out
+                if (unit.orders.length > 0) {
+                    if (this.followOrder(unit, p.id, unit.orders[0])) p.units.splice(i, 1); // Went aboard
+                    continue;
+                }
+
+                // 1. ARRIVAL CHECK (Movement is handled in update(dt))
+                if (unit.targetX !== undefined && this.reachedPathEnd(unit)) {
+                    // Wander or chase complete: enter idle
+                    this.clearDestination(unit);
                 }
 
                 // 2. COMBAT (Attack anything nearby)
@@ -1176,15 +1641,15 @@ export class GameEngine {
                 const engaged = this.handleCombat(unit, p.id);
 
                 // 3. IDLE BEHAVIOR
-                if (!unit.hasCommand && unit.targetX === undefined) {
+                if (unit.targetX === undefined) {
                     // Look for targets if not already engaged or if we want to chase
                     // If we didn't just attack something, try to find a target to move towards
                     if (!engaged) {
                         this.findTarget(unit, p.id);
                     }
 
-                    // If still no target (no enemies nearby), Wander
-                    if (unit.targetX === undefined) {
+                    // If still no target (no enemies nearby), Wander. Units placed by their player stay put.
+                    if (unit.targetX === undefined && !unit.stationed) {
                         unit.idleTicks++;
                         if (unit.idleTicks > 30) { // 3 seconds approx (at 10 ticks/sec)
                             this.wander(unit);
@@ -1196,11 +1661,154 @@ export class GameEngine {
         });
     }
 
+    // One logic tick of the unit's current order.
+    // Returns true once the unit went aboard a boat: it then leaves its player's roster.
+    private followOrder(unit: Unit, ownerId: string, order: UnitOrder): boolean {
+        switch (order.type) {
+            case 'MOVE':
+                // A plain move ignores enemies, that is what attack-move is for
+                this.marchTo(unit, order.x, order.y);
+                if (this.reachedPathEnd(unit)) this.completeOrder(unit);
+                break;
+            case 'ATTACK_MOVE':
+            case 'PATROL':
+                // Halt to fight anything in range, carry on once it is dealt with
+                if (this.handleCombat(unit, ownerId)) {
+                    this.clearDestination(unit);
+                    break;
+                }
+                this.marchTo(unit, order.x, order.y);
+                if (!this.reachedPathEnd(unit)) break;
+                if (order.type === 'PATROL') {
+                    unit.orders[0] = { type: 'PATROL', x: order.fromX, y: order.fromY, fromX: order.x, fromY: order.y };
+                    this.clearDestination(unit);
+                } else {
+                    this.completeOrder(unit);
+                }
+                break;
+            case 'ATTACK': {
+                const target = this.resolveAttackTarget(ownerId, order);
+                if (!target) {
+                    this.completeOrder(unit); // Dead, razed, or at peace with us now
+                    break;
+                }
+                const d = Math.sqrt((unit.x - target.x) ** 2 + (unit.y - target.y) ** 2);
+                if (d < UNIT_STATS[unit.type].minRange) {
+                    this.completeOrder(unit); // Too close to aim at: siege engines are helpless in melee
+                    break;
+                }
+                if (d <= unit.range) {
+                    this.clearDestination(unit);
+                    if (unit.cooldownTicks <= 0) this.strike(unit, ownerId, target.unit ?? this.tiles[target.y][target.x]);
+                    break;
+                }
+                if (!this.chase(unit, target.x, target.y)) this.completeOrder(unit); // Out of reach, e.g. inland for a boat
+                break;
+            }
+            case 'HOLD':
+                this.clearDestination(unit);
+                this.handleCombat(unit, ownerId);
+                break;
+            case 'EMBARK': {
+                const boat = this.getPlayer(ownerId)?.units.find(u => u.id === order.boatId);
+                if (!boat || boat.hp <= 0 || (boat.cargo?.length ?? 0) >= BOAT_CAPACITY) {
+                    this.completeOrder(unit); // Sunk or full
+                    break;
+                }
+                if (Math.sqrt((unit.x - boat.x) ** 2 + (unit.y - boat.y) ** 2) <= EMBARK_RANGE) {
+                    // Whatever was queued after boarding is void: the boat decides where we go now
+                    unit.orders = [];
+                    this.clearDestination(unit);
+                    boat.cargo = [...(boat.cargo ?? []), unit];
+                    return true;
+                }
+                if (!this.chase(unit, boat.x, boat.y)) this.completeOrder(unit); // The boat lies too far off the shore
+                break;
+            }
+            case 'UNLOAD':
+                if (!unit.cargo?.length) {
+                    this.completeOrder(unit);
+                    break;
+                }
+                // The shore itself is out of a boat's reach: its path ends on the closest water
+                this.marchTo(unit, order.x, order.y);
+                if (!this.reachedPathEnd(unit)) break;
+                this.unload(unit, ownerId, order.x, order.y);
+                this.completeOrder(unit);
+                break;
+        }
+        return false;
+    }
+
+    // Heads for a target on the move. The path is only replanned once the target moved a tile away from where it leads.
+    // Returns false when the target is out of reach.
+    private chase(unit: Unit, x: number, y: number): boolean {
+        const moved = unit.targetX === undefined || Math.sqrt((unit.targetX - x) ** 2 + (unit.targetY! - y) ** 2) > 1;
+        if (moved || this.reachedPathEnd(unit)) {
+            this.setUnitDestination(unit, x, y);
+            return unit.path!.length > 0;
+        }
+        return true;
+    }
+
+    // Lands the troops aboard on the free shore around the boat, the tiles nearest to (x, y) first.
+    // Unclaimed or hostile shore they set foot on becomes ours: a beachhead for armies to expand from.
+    private unload(boat: Unit, ownerId: string, x: number, y: number) {
+        const player = this.getPlayer(ownerId);
+        if (!player || !boat.cargo) return;
+
+        const bx = Math.floor(boat.x);
+        const by = Math.floor(boat.y);
+        const shore: Tile[] = [];
+        for (let ty = by - 1; ty <= by + 1; ty++) {
+            for (let tx = bx - 1; tx <= bx + 1; tx++) {
+                if (this.isValid(tx, ty) && canTraverse(this.tiles[ty][tx], UnitType.SOLDIER)) shore.push(this.tiles[ty][tx]);
+            }
+        }
+        if (shore.length === 0) return; // Nowhere to land, the troops stay aboard
+        shore.sort((a, b) => ((a.x - x) ** 2 + (a.y - y) ** 2) - ((b.x - x) ** 2 + (b.y - y) ** 2));
+
+        boat.cargo.forEach((u, i) => {
+            const tile = shore[i % shore.length];
+            u.x = tile.x;
+            u.y = tile.y;
+            u.stationed = true;
+            u.idleTicks = 0;
+            player.units.push(u);
+        });
+
+        shore.slice(0, boat.cargo.length).forEach(tile => {
+            if (tile.ownerId === ownerId || this.isAtPeace(ownerId, tile.ownerId)) return;
+            const previous = tile.ownerId ? this.getPlayer(tile.ownerId) : undefined;
+            if (previous) {
+                previous.ownedTiles = previous.ownedTiles.filter(t => t !== tile);
+                previous.lastAttackerId = ownerId;
+            }
+            tile.ownerId = ownerId;
+            tile.defense = 1 + Math.floor(player.population / 2000);
+            player.ownedTiles.push(tile);
+        });
+        boat.cargo = [];
+    }
+
+    // Where the target of an ATTACK order is now, or null once there is nothing left to attack
+    private resolveAttackTarget(ownerId: string, order: UnitOrder & { type: 'ATTACK' }): { x: number, y: number, unit?: Unit } | null {
+        if (order.targetUnitId) {
+            for (const p of this.players) {
+                const unit = p.units.find(u => u.id === order.targetUnitId);
+                if (unit) return unit.hp > 0 && !this.isAtPeace(ownerId, p.id) ? { x: unit.x, y: unit.y, unit } : null;
+            }
+            return null;
+        }
+        const building = this.isValid(order.x, order.y) ? this.tiles[order.y][order.x].building : null;
+        return building && building.ownerId !== ownerId && !this.isAtPeace(ownerId, building.ownerId) ? { x: order.x, y: order.y } : null;
+    }
+
     wander(unit: Unit) {
         // Pick random spot in 5x5 area centered on unit
         // dx from -2 to +2
-        const dx = (Math.random() * 4) - 2;
-        const dy = (Math.random() * 4) - 2;
+        const dx = (this.rng.next() * 4) - 2;
+        const dy = (this.rng.next() * 4) - 2;
 
         const nx = unit.x + dx;
         const ny = unit.y + dy;
@@ -1210,13 +1818,12 @@ export class GameEngine {
             const isBoat = unit.type === UnitType.BOAT;
             // Only wander to valid terrain
             if ((isBoat && tile.type === 'WATER') || (!isBoat && tile.type === 'LAND')) {
-                unit.targetX = nx;
-                unit.targetY = ny;
-                unit.hasCommand = false; // It's an auto-move
+                this.setUnitDestination(unit, nx, ny);
             }
         }
     }
 
+    // Only targets the unit can get to are chased: soldiers don't stare at boats out at sea
     findTarget(unit: Unit, ownerId: string) {
         let nearestDist = 999;
         let target: { x: number, y: number } | null = null;
@@ -1230,7 +1837,8 @@ export class GameEngine {
             for (let x = startX; x < endX; x++) {
                 const tile = this.tiles[y][x];
                 // 1. Enemy Buildings
-                if (tile.building && tile.building.ownerId !== ownerId) {
+                if (tile.building && tile.building.ownerId !== ownerId && !this.isAtPeace(ownerId, tile.building.ownerId)
+                    && isNavigable(tile, unit.type)) {
                     const d = Math.sqrt((unit.x - x) ** 2 + (unit.y - y) ** 2);
                     if (d < nearestDist) {
                         nearestDist = d;
@@ -1242,10 +1850,11 @@ export class GameEngine {
 
         // 2. Enemy Units (Scan all players)
         this.players.forEach(p => {
-            if (p.id !== ownerId) {
+            if (p.id !== ownerId && !this.isAtPeace(ownerId, p.id)) {
                 p.units.forEach(enemyUnit => {
                     const d = Math.sqrt((unit.x - enemyUnit.x) ** 2 + (unit.y - enemyUnit.y) ** 2);
-                    if (d < scanRadius && d < nearestDist) {
+                    const tile = this.tiles[Math.floor(enemyUnit.y)]?.[Math.floor(enemyUnit.x)];
+                    if (d < scanRadius && d < nearestDist && tile && isNavigable(tile, unit.type)) {
                         nearestDist = d;
                         target = { x: enemyUnit.x, y: enemyUnit.y };
                     }
@@ -1254,72 +1863,114 @@ export class GameEngine {
         });
 
         if (target) {
-            unit.targetX = target.x;
-            unit.targetY = target.y;
-            unit.hasCommand = false; // Auto-attack
+            this.setUnitDestination(unit, target.x, target.y);
         }
     }
 
+    // Fights the best enemy in range (see pickCombatTarget). Returns true while there is one,
+    // blow or not: between two blows the unit is still engaged and stands its ground.
     handleCombat(unit: Unit, ownerId: string): boolean {
-        const range = unit.range;
+        const target = this.pickCombatTarget(unit, ownerId);
+        if (!target) return false;
+        if (unit.cooldownTicks <= 0) this.strike(unit, ownerId, target);
+        return true;
+    }
 
-        // Check Buildings in range
-        // Optimization: Just check tile at unit pos and neighbors? 
-        // Or range loop. Range loop is safer for ranged units.
-        const rangeCeil = Math.ceil(range);
+    // Enemies in range, scored by how hard our damage type hits their armor: archers pick the swordsman
+    // over the horse, trebuchets the wall over the soldiers. The closest one wins among equals.
+    private pickCombatTarget(unit: Unit, ownerId: string): Unit | Tile | null {
+        const { minRange, damageType } = UNIT_STATS[unit.type];
+        let best: Unit | Tile | null = null;
+        let bestScore = 0;
+        let bestDist = Infinity;
+        const consider = (target: Unit | Tile, armor: ArmorClass, d: number) => {
+            if (d > unit.range || d < minRange) return;
+            const score = DAMAGE_MULTIPLIERS[damageType][armor];
+            if (score > bestScore || (score === bestScore && d < bestDist)) {
+                best = target;
+                bestScore = score;
+                bestDist = d;
+            }
+        };
 
+        // Buildings in range
+        const rangeCeil = Math.ceil(unit.range);
         for (let y = Math.floor(unit.y - rangeCeil); y <= Math.ceil(unit.y + rangeCeil); y++) {
             for (let x = Math.floor(unit.x - rangeCeil); x <= Math.ceil(unit.x + rangeCeil); x++) {
-                if (this.isValid(x, y)) {
-                    // Check dist
-                    const d = Math.sqrt((unit.x - x) ** 2 + (unit.y - y) ** 2);
-                    if (d <= range) {
-                        const tile = this.tiles[y][x];
-                        if (tile.building && tile.building.ownerId !== ownerId) {
-                            tile.building.hp -= unit.attack;
-
-                            if (tile.building.hp <= 0) {
-                                // Check for King Slayer
-                                if (tile.building.type === BuildingType.KINGDOM) {
-                                    const victim = this.players.find(p => p.id === tile.building!.ownerId);
-                                    const killer = this.players.find(p => p.id === ownerId);
-                                    if (victim && killer) {
-                                        this.queueWipeOut(killer, victim);
-                                    }
-                                }
-                                tile.building = null;
-                                tile.ownerId = null;
-                            }
-                            return true; // Attacked
-                        }
-                    }
+                if (!this.isValid(x, y)) continue;
+                const tile = this.tiles[y][x];
+                if (tile.building && tile.building.ownerId !== ownerId && !this.isAtPeace(ownerId, tile.building.ownerId)) {
+                    consider(tile, 'BUILDING', Math.sqrt((unit.x - x) ** 2 + (unit.y - y) ** 2));
                 }
             }
         }
 
-        // Check Units in range
+        // Units in range, the ones already slain this tick are only removed by their owner's update
         for (const p of this.players) {
-            if (p.id !== ownerId) {
-                for (const enemyUnit of p.units) {
-                    const d = Math.sqrt((unit.x - enemyUnit.x) ** 2 + (unit.y - enemyUnit.y) ** 2);
-                    if (d <= range) {
-                        enemyUnit.hp -= unit.attack;
-
-                        return true; // Attacked
-                    }
-                }
+            if (p.id === ownerId || this.isAtPeace(ownerId, p.id)) continue;
+            for (const enemyUnit of p.units) {
+                if (enemyUnit.hp <= 0) continue;
+                consider(enemyUnit, UNIT_STATS[enemyUnit.type].armor, Math.sqrt((unit.x - enemyUnit.x) ** 2 + (unit.y - enemyUnit.y) ** 2));
             }
         }
 
-        return false;
+        return best;
+    }
+
+    // One blow, through the counter matrix, then the unit waits out its cooldown
+    private strike(unit: Unit, ownerId: string, target: Unit | Tile) {
+        const stats = UNIT_STATS[unit.type];
+        const armor = 'orders' in target ? UNIT_STATS[target.type].armor : 'BUILDING';
+        const damage = unit.attack * DAMAGE_MULTIPLIERS[stats.damageType][armor];
+        if ('orders' in target) target.hp -= damage;
+        else this.damageBuilding(target, ownerId, damage);
+        unit.cooldownTicks = stats.cooldown;
+    }
+
+    // A unit's blow on a building. Razing it leaves the tile neutral.
+    private damageBuilding(tile: Tile, attackerId: string, damage: number) {
+        if (!tile.building) return;
+        tile.building.hp -= damage;
+        if (tile.building.hp > 0) return;
+
+        // Check for King Slayer
+        if (tile.building.type === BuildingType.KINGDOM) {
+            const victim = this.players.find(p => p.id === tile.building!.ownerId);
+            const killer = this.players.find(p => p.id === attackerId);
+            if (victim && killer) {
+                this.queueWipeOut(killer, victim);
+            }
+        }
+        // The razed tile falls neutral, its owner loses it to us
+        const razedOwner = this.players.find(p => p.id === tile.ownerId);
+        if (razedOwner) {
+            razedOwner.ownedTiles = razedOwner.ownedTiles.filter(t => t !== tile);
+            razedOwner.lastAttackerId = attackerId;
+        }
+        tile.building = null;
+        tile.ownerId = null;
     }
 
     updateTerritory() {
+        // Coasts next to a hostile boat are blockaded and don't regenerate
+        const blockaded = new Set<Tile>();
+        this.players.forEach(p => p.units.forEach(u => {
+            if (u.type !== UnitType.BOAT) return;
+            const bx = Math.floor(u.x);
+            const by = Math.floor(u.y);
+            for (let y = by - BLOCKADE_RADIUS; y <= by + BLOCKADE_RADIUS; y++) {
+                for (let x = bx - BLOCKADE_RADIUS; x <= bx + BLOCKADE_RADIUS; x++) {
+                    const tile = this.isValid(x, y) ? this.tiles[y][x] : null;
+                    if (tile?.type === 'LAND' && tile.ownerId && tile.ownerId !== p.id && !this.isAtPeace(p.id, tile.ownerId)) blockaded.add(tile);
+                }
+            }
+        }));
+
         // Passive regeneration of defense for owned tiles
         for (let y = 0; y < this.config.mapHeight; y++) {
             for (let x = 0; x < this.config.mapWidth; x++) {
                 const tile = this.tiles[y][x];
-                if (tile.ownerId) {
+                if (tile.ownerId && !blockaded.has(tile)) {
                     const owner = this.players.find(p => p.id === tile.ownerId);
                     if (owner) {
                         const maxDefense = 1 + Math.floor(owner.population / 2000);
@@ -1337,20 +1988,22 @@ export class GameEngine {
     }
 
     updateAI() {
-        this.players.filter(p => p.isAI).forEach(ai => {
+        this.players.filter(p => p.isAI && !this.isEliminated(p)).forEach(ai => {
 
             if (ai.aiType === AIType.KINGDOM) {
                 // --- KINGDOM LOGIC (Smart, Buildings) ---
 
+                this.aiAnswerProposals(ai);
+
                 // Economy Build
                 if (ai.resources[ResourceType.GOLD] > 1000) {
                     this.tryBuildAI(ai, BuildingType.CASTLE);
-                } else if (ai.resources[ResourceType.WOOD] > 200 && Math.random() > 0.5) {
+                } else if (ai.resources[ResourceType.WOOD] > 200 && this.rng.next() > 0.5) {
                     this.tryBuildAI(ai, BuildingType.WOODCUTTER);
                 }
 
                 // Expansion
-                if (ai.population > 25 && Math.random() > 0.2) { // Increased chance
+                if (ai.population > 25 && this.rng.next() > 0.2) { // Increased chance
                     this.aiExpand(ai, 20); // 20% commitment
                 }
             } else if (ai.aiType === AIType.CAMP) {
@@ -1360,7 +2013,7 @@ export class GameEngine {
                 // They don't save for buildings.
                 if (ai.population > 2) {
                     // Try to attack very frequently
-                    if (Math.random() > 0.1) { // Even more aggressive (90% chance)
+                    if (this.rng.next() > 0.1) { // Even more aggressive (90% chance)
                         // 50% commitment - highly aggressive
                         this.aiExpand(ai, 50);
                     }
@@ -1369,7 +2022,19 @@ export class GameEngine {
         });
     }
 
-    aiExpand(ai: Player, percent: number) {
+    // Kingdoms respect strength: a pact with anyone at least half their size,
+    // an alliance only with someone at least as large.
+    aiAnswerProposals(ai: Player) {
+        this.diplomacy.proposals.filter(p => p.toId === ai.id).forEach(proposal => {
+            const from = this.getPlayer(proposal.fromId);
+            const needed = proposal.type === 'ALLIANCE' ? ai.landArea : ai.landArea / 2;
+            this.diplomacy.answer(ai.id, proposal.fromId, !!from && from.landArea >= needed, this.tickCount);
+        });
+    }
+
+    aiExpand(ai: Player, basePercent: number) {
+        const percent = Math.min(100, basePercent * BOT_DIFFICULTY_COMMITMENT[this.rules.botDifficulty]);
+
         // Dynamic scan step: If small, scan every tile. If huge, optimize.
         const scanStep = ai.landArea < 50 ? 1 : 4;
 
@@ -1399,7 +2064,7 @@ export class GameEngine {
         if (borderCandidates.length > 0) {
             // Try up to 3 times to find a valid expansion
             for (let attempt = 0; attempt < 3; attempt++) {
-                const src = borderCandidates[Math.floor(Math.random() * borderCandidates.length)];
+                const src = borderCandidates[this.rng.nextInt(borderCandidates.length)];
                 const neighbors = [{ x: 0, y: -1 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 1, y: 0 }];
 
                 let possibleTargets = neighbors.map(n => {
@@ -1410,6 +2075,7 @@ export class GameEngine {
                 }).filter(t => {
                     if (!t || t.type !== 'LAND') return false;
                     if (t.ownerId === ai.id) return false;
+                    if (this.isAtPeace(ai.id, t.ownerId)) return false;
 
                     // CRITICAL: NEVER ATTACK HUMANS
                     if (t.ownerId) {
@@ -1440,7 +2106,7 @@ export class GameEngine {
                     // Execute
                     const validFinalTargets = possibleTargets.filter(t => t !== null && t !== undefined) as Tile[];
                     if (validFinalTargets.length > 0) {
-                        const target = validFinalTargets[Math.floor(Math.random() * validFinalTargets.length)];
+                        const target = validFinalTargets[this.rng.nextInt(validFinalTargets.length)];
                         this.distributeExpansion(ai.id, target.x, target.y, percent);
                         break;
                     }
@@ -1451,8 +2117,8 @@ export class GameEngine {
 
     tryBuildAI(player: Player, type: BuildingType) {
         for (let i = 0; i < 20; i++) {
-            const x = Math.floor(Math.random() * this.config.mapWidth);
-            const y = Math.floor(Math.random() * this.config.mapHeight);
+            const x = this.rng.nextInt(this.config.mapWidth);
+            const y = this.rng.nextInt(this.config.mapHeight);
             if (this.canBuild(player.id, type, x, y)) {
                 this.placeBuilding(player.id, type, x, y);
                 break;
@@ -1512,11 +2178,12 @@ export class GameEngine {
             for (const r of Object.keys(costs) as ResourceType[]) {
                 player.resources[r] -= costs[r];
             }
+            player.stats.buildingsBuilt++;
         }
 
         const tile = this.tiles[y][x];
         tile.building = {
-            id: Math.random().toString(36).substr(2, 9),
+            id: this.rng.nextId(),
             type,
             ownerId: playerId,
             x,
@@ -1552,6 +2219,12 @@ export class GameEngine {
         const player = this.players.find(p => p.id === playerId);
         if (!player) return;
 
+        if (type === UnitType.BOAT) {
+            const slip = this.findSlip(playerId, x, y);
+            if (!slip) return;
+            ({ x, y } = slip);
+        }
+
         // Check costs
         const costs = UNIT_COSTS[type];
         for (const r of Object.keys(costs) as ResourceType[]) {
@@ -1568,10 +2241,11 @@ export class GameEngine {
 
         // Pay Pop
         player.population -= 1;
+        player.stats.unitsRaised++;
 
         const stats = UNIT_STATS[type];
         player.units.push({
-            id: Math.random().toString(36).substr(2, 9),
+            id: this.rng.nextId(),
             type,
             ownerId: playerId,
             x,
@@ -1581,11 +2255,20 @@ export class GameEngine {
             attack: stats.attack,
             speed: stats.speed,
             range: stats.range,
-            hasCommand: false,
+            cooldownTicks: 0,
+            orders: [],
             idleTicks: 0
         });
     }
 
+    get rules(): MatchRules {
+        return this.config.rules ?? DEFAULT_MATCH_RULES;
+    }
+
+    get mode(): GameMode {
+        return this.rules.mode;
+    }
+
     get isGameOver(): boolean {
         return this.winnerId !== null;
     }
@@ -1594,12 +2277,41 @@ export class GameEngine {
         if (!this.winnerId) return null;
         const winner = this.players.find(p => p.id === this.winnerId);
         return {
-            matchId: Math.random().toString(36).substr(2, 9),
-            mapName: 'Fractal Valley', // TODO: Store map name in config
+            // Unhosted matches have no lobby id, derive one: reading the log must not advance the RNG
+            matchId: this.config.matchId || `${this.seed.toString(36)}-${this.stepCount}`,
+            mapName: this.config.mapName || 'Procedural Lands',
             winnerName: winner ? winner.name : 'Unknown',
             winnerId: this.winnerId,
+            winningTeamId: winner?.teamId ?? null,
             totalPlayers: this.players.length,
-            timestamp: Date.now()
+            seed: this.seed,
+            timestamp: Date.now(),
+            standings: this.getStandings()
         };
     }
+
+    // Winner first, then survivors by land, then the eliminated (last to fall ranks highest).
+    // In team games the whole winning side shares first place.
+    getStandings(): PlayerStanding[] {
+        const killers = new Map(this.eliminations.map(e => [e.playerId, e.eliminatedById]));
+        const winningTeamId = this.getPlayer(this.winnerId ?? '')?.teamId ?? null;
+        const isWinner = (p: Player) => p.id === this.winnerId || (winningTeamId !== null && p.teamId === winningTeamId);
+        const rank = (p: Player) => isWinner(p) ? 0 : p.stats.eliminatedAtTick === null ? 1 : 2;
+        return [...this.players]
+            .sort((a, b) => rank(a) - rank(b)
+                || b.landArea - a.landArea
+                || (b.stats.eliminatedAtTick ?? 0) - (a.stats.eliminatedAtTick ?? 0))
+            .map((p, i) => ({
+                playerId: p.id,
+                name: p.name,
+                isAI: p.isAI,
+                placement: isWinner(p) ? 1 : i + 1,
+                peakLand: p.stats.peakLand,
+                finalPopulation: Math.floor(p.population),
+                buildingsBuilt: p.stats.buildingsBuilt,
+                unitsRaised: p.stats.unitsRaised,
+                eliminatedAtTick: p.stats.eliminatedAtTick,
+                eliminatedById: killers.get(p.id) ?? null
+            }));
+    }
 }
@@ -0,0 +1,62 @@
+import { CHECKSUM_INTERVAL, GAME_TICK_RATE } from '../constants.ts';
+import { GameCommand, LockstepBatch } from '../types.ts';
+import { GameEngine } from './GameEngine.ts';
+
+// If more batches than this are buffered we are behind the server and step without waiting
+const CATCH_UP_THRESHOLD = 3;
+
+// Client side of LOCKSTEP mode: steps the local engine only once the
+// server's batch for that step has arrived.
+export class LockstepClient {
+    private engine: GameEngine;
+    private batches = new Map<number, GameCommand[]>();
+    private accumulator = 0;
+    private onChecksum: (step: number, checksum: number) => void;
+
+    constructor(engine: GameEngine, onChecksum: (step: number, checksum: number) => void) {
+        this.engine = engine;
+        this.onChecksum = onChecksum;
+    }
+
+    receive(batch: LockstepBatch) {
+        // Ignore anything we already simulated
+        if (batch.step <= this.engine.stepCount) return;
+        this.batches.set(batch.step, batch.commands);
+    }
+
+    // After the engine was restored from a server save: drop batches the save already contains
+    resync() {
+        const step = this.engine.stepCount;
+        this.batches.forEach((_, s) => {
+            if (s <= step) this.batches.delete(s);
+        });
+        this.accumulator = 0;
+    }
+
+    get bufferedSteps(): number {
+        return this.batches.size;
+    }
+
+    // Called every frame with the elapsed ms
+    update(dt: number) {
+        this.accumulator += dt;
+
+        while (this.accumulator >= GAME_TICK_RATE || this.batches.size > CATCH_UP_THRESHOLD) {
+            const next = this.engine.stepCount + 1;
+            const commands = this.batches.get(next);
+            if (!commands) {
+                // Stall: never run ahead of the inputs, and don't bank time while waiting
+                this.accumulator = Math.min(this.accumulator, GAME_TICK_RATE);
+                return;
+            }
+
+            this.batches.delete(next);
+            this.engine.step(commands);
+            this.accumulator = Math.max(0, this.accumulator - GAME_TICK_RATE);
+
+            if (next % CHECKSUM_INTERVAL === 0) {
+                this.onChecksum(next, this.engine.computeChecksum());
+            }
+        }
+    }
+}
@@ -0,0 +1,205 @@
+import { Coordinates, Tile, UnitType } from '../types.ts';
+
+// Tiles one search may expand. Enough to walk around a lake on the full map,
+// small enough to answer every unit order inside a logic tick.
+const MAX_EXPANDED = 6000;
+
+// Extra cost per elevation level climbed, on top of the slower walk on high ground
+const CLIMB_COST = 0.25;
+
+const SQRT2 = Math.SQRT2;
+const STEPS = [
+    { dx: 1, dy: 0, len: 1 }, { dx: -1, dy: 0, len: 1 }, { dx: 0, dy: 1, len: 1 }, { dx: 0, dy: -1, len: 1 },
+    { dx: 1, dy: 1, len: SQRT2 }, { dx: 1, dy: -1, len: SQRT2 }, { dx: -1, dy: 1, len: SQRT2 }, { dx: -1, dy: -1, len: SQRT2 }
+];
+
+// Boats sail, everyone else walks
+export function isNavigable(tile: Tile, unitType: UnitType): boolean {
+    return unitType === UnitType.BOAT ? tile.type === 'WATER' : tile.type === 'LAND';
+}
+
+// Buildings block the way. They can still be a destination: that is how units storm them.
+export function canTraverse(tile: Tile, unitType: UnitType): boolean {
+    return !tile.building && isNavigable(tile, unitType);
+}
+
+// Time to cross a tile relative to flat ground, the same slowdown GameEngine.update applies
+export function terrainCost(tile: Tile): number {
+    return tile.type === 'LAND' ? 1 / (1 - tile.elevation / 25) : 1;
+}
+
+// Octile distance: admissible since no tile is cheaper than flat ground
+const heuristic = (x: number, y: number, gx: number, gy: number) => {
+    const dx = Math.abs(x - gx);
+    const dy = Math.abs(y - gy);
+    return Math.max(dx, dy) + (SQRT2 - 1) * Math.min(dx, dy);
+};
+
+// A* over the tile grid from the unit's tile to the goal's tile.
+// Returns the waypoints to follow (tile coordinates, the last one is the exact goal).
+// An unreachable goal yields a path to the reachable tile closest to it, which may be empty.
+// Fully deterministic: ties are broken by insertion order, no randomness involved.
+export function findPath(tiles: Tile[][], from: Coordinates, to: Coordinates, unitType: UnitType): Coordinates[] {
+    const height = tiles.length;
+    const width = height > 0 ? tiles[0].length : 0;
+    const inside = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height;
+
+    const sx = Math.floor(from.x);
+    const sy = Math.floor(from.y);
+    const gx = Math.floor(to.x);
+    const gy = Math.floor(to.y);
+    if (!inside(sx, sy) || !inside(gx, gy)) return [];
+    if (sx === gx && sy === gy) return [{ x: to.x, y: to.y }];
+
+    const start = sy * width + sx;
+    const goal = gy * width + gx;
+    const search = nextSearch(width * height);
+    const { cost, cameFrom, seen, closed, id } = search;
+    const open = new OpenSet();
+
+    seen[start] = id;
+    cost[start] = 0;
+    open.push(start, heuristic(sx, sy, gx, gy));
+
+    let best = start; // Closest to the goal so far, the fallback destination
+    let bestH = heuristic(sx, sy, gx, gy);
+    let expanded = 0;
+
+    while (open.size > 0 && expanded < MAX_EXPANDED) {
+        const current = open.pop();
+        if (closed[current] === id) continue;
+        closed[current] = id;
+        expanded++;
+
+        if (current === goal) {
+            best = current;
+            break;
+        }
+
+        const cx = current % width;
+        const cy = (current - cx) / width;
+        const h = heuristic(cx, cy, gx, gy);
+        if (h < bestH) {
+            best = current;
+            bestH = h;
+        }
+
+        for (const step of STEPS) {
+            const nx = cx + step.dx;
+            const ny = cy + step.dy;
+            if (!inside(nx, ny)) continue;
+            const next = ny * width + nx;
+            if (closed[next] === id) continue;
+
+            const tile = tiles[ny][nx];
+            if (next === goal ? !isNavigable(tile, unitType) : !canTraverse(tile, unitType)) continue;
+            // No cutting corners past blocked tiles
+            if (step.dx !== 0 && step.dy !== 0
+                && (!canTraverse(tiles[cy][nx], unitType) || !canTraverse(tiles[ny][cx], unitType))) continue;
+
+            const climb = Math.max(0, tile.elevation - tiles[cy][cx].elevation) * CLIMB_COST;
+            const g = cost[current] + step.len * terrainCost(tile) + climb;
+            if (seen[next] !== id || g < cost[next]) {
+                seen[next] = id;
+                cost[next] = g;
+                cameFrom[next] = current;
+                open.push(next, g + heuristic(nx, ny, gx, gy));
+            }
+        }
+    }
+
+    const path: Coordinates[] = [];
+    for (let node = best; node !== start; node = cameFrom[node]) {
+        const x = node % width;
+        path.push({ x, y: (node - x) / width });
+    }
+    path.reverse();
+
+    // Finish on the exact requested spot, not just its tile
+    if (best === goal) path[path.length - 1] = { x: to.x, y: to.y };
+    return path;
+}
+
+// Per-tile search buffers, reused across searches: a map-sized allocation per unit order
+// would churn the GC. Entries only count when stamped with the current search id.
+interface SearchBuffers {
+    id: number;
+    cost: Float64Array;
+    cameFrom: Int32Array;
+    seen: Uint32Array;
+    closed: Uint32Array;
+}
+
+let buffers: SearchBuffers | null = null;
+
+function nextSearch(size: number): SearchBuffers {
+    if (!buffers || buffers.cost.length !== size || buffers.id === 0xffffffff) {
+        buffers = { id: 0, cost: new Float64Array(size), cameFrom: new Int32Array(size), seen: new Uint32Array(size), closed: new Uint32Array(size) };
+    }
+    buffers.id++;
+    return buffers;
+}
+
+// Binary min-heap of tile indices by priority, FIFO among equal priorities
+class OpenSet {
+    private nodes: number[] = [];
+    private priorities: number[] = [];
+    private order: number[] = [];
+    private counter = 0;
+
+    get size(): number {
+        return this.nodes.length;
+    }
+
+    push(node: number, priority: number) {
+        this.nodes.push(node);
+        this.priorities.push(priority);
+        this.order.push(this.counter++);
+        this.up(this.nodes.length - 1);
+    }
+
+    pop(): number {
+        const top = this.nodes[0];
+        const last = this.nodes.length - 1;
+        this.swap(0, last);
+        this.nodes.pop();
+        this.priorities.pop();
+        this.order.pop();
+        this.down(0);
+        return top;
+    }
+
+    private less(a: number, b: number): boolean {
+        return this.priorities[a] < this.priorities[b]
+            || (this.priorities[a] === this.priorities[b] && this.order[a] < this.order[b]);
+    }
+
+    private swap(a: number, b: number) {
+        [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+        [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+        [this.order[a], this.order[b]] = [this.order[b], this.order[a]];
+    }
+
+    private up(i: number) {
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.less(i, parent)) break;
+            this.swap(i, parent);
+            i = parent;
+        }
+    }
+
+    private down(i: number) {
+        const n = this.nodes.length;
+        for (;;) {
+            const l = 2 * i + 1;
+            const r = l + 1;
+            let smallest = i;
+            if (l < n && this.less(l, smallest)) smallest = l;
+            if (r < n && this.less(r, smallest)) smallest = r;
+            if (smallest === i) break;
+            this.swap(i, smallest);
+            i = smallest;
+        }
+    }
+}
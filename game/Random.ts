@@ -0,0 +1,40 @@
+// Seedable PRNG (mulberry32). Every random decision the engine makes goes through
+// one instance so a match is fully reproducible from its seed and inputs.
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    static randomSeed(): number {
+        return Math.floor(Math.random() * 0xffffffff) >>> 0;
+    }
+
+    // Float in [0, 1)
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    // Integer in [0, max)
+    nextInt(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    // 9 char base36 id, same shape as the old Math.random() ids
+    nextId(): string {
+        return this.next().toString(36).substr(2, 9).padEnd(9, '0');
+    }
+
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number) {
+        this.state = state >>> 0;
+    }
+}
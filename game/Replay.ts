@@ -0,0 +1,137 @@
+import { GameCommand, MatchRules, PlayerProfile, ReplayCommand, ReplayData, SavedGameState } from '../types.ts';
+import { GAME_TICK_RATE } from '../constants.ts';
+import { GameEngine } from './GameEngine.ts';
+
+// Bump whenever the same seed and commands can play out differently (rules, balance, bots).
+// A replay only re-simulates correctly on the version that recorded it, others are refused.
+export const SIMULATION_VERSION = 1;
+
+// A full save is kept every N steps while playing, so seeking backwards doesn't re-simulate from step 0
+const KEYFRAME_INTERVAL = 1000;
+// Max ms spent simulating per frame while fast-forwarding to a seek target
+const SEEK_BUDGET_MS = 30;
+
+// Records every command a MatchHost applies, keyed by the step it was applied on
+export class ReplayRecorder {
+    private commands: ReplayCommand[] = [];
+
+    record(step: number, commands: GameCommand[]) {
+        commands.forEach(command => this.commands.push({ step, command }));
+    }
+
+    finish(info: { id: string, seed: number, mapId: string, mapName: string, roster: PlayerProfile[], rules: MatchRules }, engine: GameEngine): ReplayData {
+        const winner = engine.winnerId ? engine.getPlayer(engine.winnerId) : undefined;
+        return {
+            ...info,
+            simulationVersion: SIMULATION_VERSION,
+            totalSteps: engine.stepCount,
+            winnerId: engine.winnerId,
+            winnerName: winner ? winner.name : null,
+            commands: this.commands,
+            createdAt: Date.now()
+        };
+    }
+}
+
+// Re-simulates a ReplayData on a local engine with play/pause, speed and seek
+export class ReplayPlayer {
+    readonly replay: ReplayData;
+    playing = false;
+    speed = 1;
+    private engine: GameEngine;
+    private commandsByStep = new Map<number, GameCommand[]>();
+    private keyframes = new Map<number, SavedGameState>();
+    private targetStep: number | null = null;
+    private accumulator = 0;
+
+    // Throws if the replay was recorded by another SIMULATION_VERSION
+    constructor(engine: GameEngine, replay: ReplayData, mapData?: any) {
+        if (replay.simulationVersion !== SIMULATION_VERSION) {
+            throw new Error(`Unsupported replay simulation version: ${replay.simulationVersion} (expected ${SIMULATION_VERSION})`);
+        }
+        this.engine = engine;
+        this.replay = replay;
+
+        replay.commands.forEach(({ step, command }) => {
+            const list = this.commandsByStep.get(step);
+            if (list) list.push(command);
+            else this.commandsByStep.set(step, [command]);
+        });
+
+        this.engine.init(replay.roster, mapData, replay.seed, replay.rules);
+        this.keyframes.set(0, this.engine.serialize());
+    }
+
+    get step(): number {
+        return this.engine.stepCount;
+    }
+
+    get totalSteps(): number {
+        return this.replay.totalSteps;
+    }
+
+    get isSeeking(): boolean {
+        return this.targetStep !== null;
+    }
+
+    play() {
+        if (this.step >= this.totalSteps) this.seek(0);
+        this.playing = true;
+    }
+
+    pause() {
+        this.playing = false;
+    }
+
+    setSpeed(speed: number) {
+        this.speed = speed;
+    }
+
+    // Jumps back to the closest keyframe, the remaining steps are simulated over the next frames
+    seek(step: number) {
+        const target = Math.max(0, Math.min(this.totalSteps, Math.floor(step)));
+        if (target < this.step || this.nearestKeyframe(target) > this.step) {
+            this.engine.deserialize(this.keyframes.get(this.nearestKeyframe(target))!);
+        }
+        this.targetStep = target === this.step ? null : target;
+        this.accumulator = 0;
+    }
+
+    // Called every frame with the elapsed ms
+    update(dt: number) {
+        if (this.targetStep !== null) {
+            const started = performance.now();
+            while (this.step < this.targetStep && performance.now() - started < SEEK_BUDGET_MS) {
+                this.advance();
+            }
+            if (this.step >= this.targetStep) this.targetStep = null;
+            return;
+        }
+
+        if (!this.playing) return;
+        this.accumulator += dt * this.speed;
+        while (this.accumulator >= GAME_TICK_RATE && this.step < this.totalSteps) {
+            this.advance();
+            this.accumulator -= GAME_TICK_RATE;
+        }
+        if (this.step >= this.totalSteps) {
+            this.playing = false;
+            this.accumulator = 0;
+        }
+    }
+
+    private advance() {
+        this.engine.step(this.commandsByStep.get(this.step + 1) || []);
+        if (this.step % KEYFRAME_INTERVAL === 0 && !this.keyframes.has(this.step)) {
+            this.keyframes.set(this.step, this.engine.serialize());
+        }
+    }
+
+    private nearestKeyframe(step: number): number {
+        let best = 0;
+        this.keyframes.forEach((_, s) => {
+            if (s <= step && s > best) best = s;
+        });
+        return best;
+    }
+}
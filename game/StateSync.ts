@@ -0,0 +1,101 @@
+import { Building, GameStateSync, SyncPlayerState, TileDelta } from '../types.ts';
+import { GameEngine } from './GameEngine.ts';
+import { Diplomacy } from './Diplomacy.ts';
+import { VictoryEvaluator } from './VictoryEvaluator.ts';
+
+// Server side: tracks what was last sent so each tick only ships changed tiles.
+// Defense is intentionally not synced, clients never simulate combat.
+export class StateSync {
+    private owners: (string | null)[] = [];
+    private buildings: string[] = [];
+
+    encode(engine: GameEngine, full: boolean = false): GameStateSync {
+        const w = engine.config.mapWidth;
+        const h = engine.config.mapHeight;
+        if (this.owners.length !== w * h) {
+            this.owners = new Array(w * h).fill(null);
+            this.buildings = new Array(w * h).fill('');
+        }
+
+        const tiles: TileDelta[] = [];
+        for (let y = 0; y < h; y++) {
+            for (let x = 0; x < w; x++) {
+                const idx = y * w + x;
+                const tile = engine.tiles[y][x];
+                const bKey = buildingKey(tile.building);
+
+                const changed = tile.ownerId !== this.owners[idx] || bKey !== this.buildings[idx];
+                this.owners[idx] = tile.ownerId;
+                this.buildings[idx] = bKey;
+
+                if (full) {
+                    if (tile.ownerId === null && tile.building === null) continue;
+                } else if (!changed) {
+                    continue;
+                }
+                tiles.push({ x, y, ownerId: tile.ownerId, building: tile.building });
+            }
+        }
+
+        return {
+            tick: engine.tickCount,
+            full,
+            isGameActive: engine.isGameActive,
+            winnerId: engine.winnerId,
+            players: engine.players.map(({ ownedTiles, ...rest }): SyncPlayerState => rest),
+            tiles,
+            diplomacy: engine.diplomacy.getState(),
+            victory: engine.victory.getState(),
+            eliminations: engine.eliminations.map(e => ({ ...e }))
+        };
+    }
+}
+
+function buildingKey(b: Building | null): string {
+    if (!b) return '';
+    return `${b.id}:${b.ownerId}:${Math.ceil(b.hp)}:${b.constructionProgress}`;
+}
+
+// Client side: applies an authoritative sync onto a replica engine (see GameEngine.initClient)
+export function applyStateSync(engine: GameEngine, sync: GameStateSync) {
+    if (sync.full) {
+        for (const row of engine.tiles) {
+            for (const tile of row) {
+                tile.ownerId = null;
+                tile.building = null;
+            }
+        }
+    }
+
+    for (const t of sync.tiles) {
+        if (!engine.isValid(t.x, t.y)) continue;
+        const tile = engine.tiles[t.y][t.x];
+        tile.ownerId = t.ownerId;
+        tile.building = t.building;
+    }
+
+    sync.players.forEach(sp => {
+        const existing = engine.getPlayer(sp.id);
+        if (existing) {
+            Object.assign(existing, sp);
+        } else {
+            engine.players.push({ ...sp, ownedTiles: [] });
+        }
+    });
+
+    // Rebuild ownedTiles caches from the grid
+    const byId = new Map(engine.players.map(p => [p.id, p]));
+    engine.players.forEach(p => { p.ownedTiles = []; });
+    for (const row of engine.tiles) {
+        for (const tile of row) {
+            if (tile.ownerId) byId.get(tile.ownerId)?.ownedTiles.push(tile);
+        }
+    }
+
+    engine.tickCount = sync.tick;
+    engine.isGameActive = sync.isGameActive;
+    engine.winnerId = sync.winnerId;
+    engine.diplomacy = new Diplomacy(sync.diplomacy);
+    engine.victory = new VictoryEvaluator(sync.victory);
+    engine.eliminations = sync.eliminations;
+}
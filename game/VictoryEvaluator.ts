@@ -0,0 +1,165 @@
+import { AIType, BuildingType, GameMode, Player, Tile, VictoryState } from '../types.ts';
+import { GAME_TICK_RATE, MAX_MATCH_TICKS } from '../constants.ts';
+import type { GameEngine } from './GameEngine.ts';
+
+const ticksFromSeconds = (seconds: number) => Math.round((seconds * 1000) / GAME_TICK_RATE);
+
+// Players fighting as one: a team, or a single player outside of any team
+interface Side {
+    id: string; // 'T<teamId>' or the player id, see VictoryState.hillHolderId
+    members: Player[];
+    land: number;
+}
+
+// Decides when a match is over and who won, according to the match's GameMode.
+// Runs inside the simulation (every economy tick), so it only reads engine state
+// and keeps its own state in VictoryState for saves and syncs.
+export class VictoryEvaluator {
+    private state: VictoryState;
+
+    constructor(state: VictoryState = { hillHolderId: null, hillHeldTicks: 0 }) {
+        this.state = state;
+    }
+
+    getState(): VictoryState {
+        return { ...this.state };
+    }
+
+    // Returns the winner's player id, or null while the match goes on.
+    // A winning team is represented by its member with the most land.
+    evaluate(engine: GameEngine, elapsedTicks: number): string | null {
+        const sides = this.getSides(engine);
+        const modeWinner = this.evaluateMode(engine, engine.mode, sides, elapsedTicks);
+        if (modeWinner) return this.leaderOf(modeWinner);
+
+        // Every mode: last faction standing, once it also holds more land than any camp. Camps are
+        // brigands, not factions, but a kingdom pushed into a corner by them hasn't won anything.
+        // Fallen humans watch until the survivors settle it, or the clock runs out.
+        const factions = sides.filter(s => s.members.some(p => p.aiType !== AIType.CAMP));
+        const standing = factions.filter(s => s.members.some(p => this.isStanding(engine, p)));
+        if (factions.length > 1 && standing.length === 1 && this.largest(sides) === standing[0]) return this.leaderOf(standing[0]);
+        if ((factions.length > 0 && standing.length === 0) || engine.tickCount >= MAX_MATCH_TICKS) {
+            const largest = this.largest(sides);
+            return largest && largest.land > 0 ? this.leaderOf(largest) : 'AI_WINNER';
+        }
+        return null;
+    }
+
+    // Land tiles of the king-of-the-hill region: a circle around the land tile closest to the map center
+    getHillTiles(engine: GameEngine, radius: number): Tile[] {
+        const center = this.findHillCenter(engine);
+        if (!center) return [];
+
+        const tiles: Tile[] = [];
+        for (let y = center.y - radius; y <= center.y + radius; y++) {
+            for (let x = center.x - radius; x <= center.x + radius; x++) {
+                if (!engine.isValid(x, y) || (x - center.x) ** 2 + (y - center.y) ** 2 > radius * radius) continue;
+                if (engine.tiles[y][x].type === 'LAND') tiles.push(engine.tiles[y][x]);
+            }
+        }
+        return tiles;
+    }
+
+    get hillHolderId(): string | null {
+        return this.state.hillHolderId;
+    }
+
+    get hillHeldTicks(): number {
+        return this.state.hillHeldTicks;
+    }
+
+    private evaluateMode(engine: GameEngine, mode: GameMode, sides: Side[], elapsedTicks: number): Side | null {
+        switch (mode.type) {
+            case 'CONQUEST': {
+                if (engine.totalLandTiles === 0) return null;
+                const leader = this.largest(sides);
+                return leader && leader.land / engine.totalLandTiles > mode.winPercentage / 100 ? leader : null;
+            }
+            case 'TIMED':
+                return engine.tickCount >= ticksFromSeconds(mode.minutes * 60) ? this.largest(sides) : null;
+            case 'REGICIDE': {
+                // Camps never had a keep and don't count
+                const crowned = sides.filter(s => s.members.some(p => this.hasKingdom(p)));
+                if (crowned.length > 1) return null;
+                return crowned[0] ?? this.largest(sides);
+            }
+            case 'KING_OF_THE_HILL': {
+                const holder = this.hillHolder(engine, sides, mode.hillRadius);
+                if (!holder || holder.id !== this.state.hillHolderId) {
+                    this.state.hillHolderId = holder ? holder.id : null;
+                    this.state.hillHeldTicks = 0;
+                    return null;
+                }
+                this.state.hillHeldTicks += elapsedTicks;
+                return this.state.hillHeldTicks >= ticksFromSeconds(mode.holdSeconds) ? holder : null;
+            }
+            default:
+                return null;
+        }
+    }
+
+    private getSides(engine: GameEngine): Side[] {
+        const sides = new Map<string, Side>();
+        engine.players.forEach(p => {
+            const id = p.teamId !== null ? `T${p.teamId}` : p.id;
+            const side = sides.get(id) ?? { id, members: [], land: 0 };
+            side.members.push(p);
+            side.land += p.landArea;
+            sides.set(id, side);
+        });
+        return [...sides.values()];
+    }
+
+    // Ties go to the side listed first (roster order), like every other engine decision
+    private largest(sides: Side[]): Side | null {
+        return sides.reduce<Side | null>((best, s) => (!best || s.land > best.land ? s : best), null);
+    }
+
+    private leaderOf(side: Side): string {
+        return side.members.reduce((best, p) => (p.landArea > best.landArea ? p : best)).id;
+    }
+
+    private isStanding(engine: GameEngine, player: Player): boolean {
+        return engine.mode.type === 'REGICIDE' ? this.hasKingdom(player) : player.landArea > 0;
+    }
+
+    private hasKingdom(player: Player): boolean {
+        return player.ownedTiles.some(t => t.building?.type === BuildingType.KINGDOM && t.building.ownerId === player.id);
+    }
+
+    // The side owning more than half of the hill's land, if any
+    private hillHolder(engine: GameEngine, sides: Side[], radius: number): Side | null {
+        const hill = this.getHillTiles(engine, radius);
+        if (hill.length === 0) return null;
+
+        const sideOf = new Map<string, Side>();
+        sides.forEach(s => s.members.forEach(p => sideOf.set(p.id, s)));
+
+        const counts = new Map<Side, number>();
+        hill.forEach(t => {
+            const side = t.ownerId ? sideOf.get(t.ownerId) : undefined;
+            if (side) counts.set(side, (counts.get(side) ?? 0) + 1);
+        });
+        for (const [side, count] of counts) {
+            if (count * 2 > hill.length) return side;
+        }
+        return null;
+    }
+
+    private findHillCenter(engine: GameEngine): { x: number, y: number } | null {
+        const cx = Math.floor(engine.config.mapWidth / 2);
+        const cy = Math.floor(engine.config.mapHeight / 2);
+        const maxRadius = Math.max(cx, cy);
+
+        // Rings of growing size around the center, scanned in a fixed order
+        for (let r = 0; r <= maxRadius; r++) {
+            for (let y = cy - r; y <= cy + r; y++) {
+                for (let x = cx - r; x <= cx + r; x++) {
+                    if (Math.max(Math.abs(x - cx), Math.abs(y - cy)) !== r) continue;
+                    if (engine.isValid(x, y) && engine.tiles[y][x].type === 'LAND') return { x, y };
+                }
+            }
+        }
+        return null;
+    }
+}
@@ -0,0 +1,36 @@
+import { Coordinates, Formation } from '../types.ts';
+
+const SLOT_SPACING = 1; // Tiles between neighbouring slots
+const LINE_WIDTH = 8; // Units per rank of a line, further ranks form up behind
+const COLUMN_WIDTH = 2; // Units abreast in a column
+
+// Units per rank, front rank first
+function rankSizes(count: number, formation: Formation): number[] {
+    const ranks: number[] = [];
+    let left = count;
+    for (let rank = 0; left > 0; rank++) {
+        const width = formation === 'WEDGE' ? rank + 1 : formation === 'COLUMN' ? COLUMN_WIDTH : LINE_WIDTH;
+        ranks.push(Math.min(width, left));
+        left -= width;
+    }
+    return ranks;
+}
+
+// Offsets of `count` slots around the destination, front rank first.
+// The front rank is centered on the destination and the others stack up behind it,
+// as seen by a group marching along `facing` (north when the group didn't move).
+export function formationSlots(count: number, formation: Formation, facing: Coordinates): Coordinates[] {
+    const length = Math.sqrt(facing.x * facing.x + facing.y * facing.y);
+    const forward = length > 0 ? { x: facing.x / length, y: facing.y / length } : { x: 0, y: -1 };
+    const right = { x: -forward.y, y: forward.x };
+
+    const slots: Coordinates[] = [];
+    rankSizes(count, formation).forEach((size, rank) => {
+        for (let i = 0; i < size; i++) {
+            const side = (i - (size - 1) / 2) * SLOT_SPACING;
+            const back = rank * SLOT_SPACING;
+            slots.push({ x: right.x * side - forward.x * back, y: right.y * side - forward.y * back });
+        }
+    });
+    return slots;
+}
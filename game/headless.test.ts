@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { runHeadlessMatch } from './headless.ts';
+import { SIMULATION_VERSION } from './Replay.ts';
+
+// Pinned outcome of a small all-bot match. If a change to the simulation moves it on purpose,
+// bump SIMULATION_VERSION (old replays no longer play back the same) and update the numbers.
+describe('runHeadlessMatch', () => {
+    it('plays a fixed seed out the same way', () => {
+        const result = runHeadlessMatch({ seed: 1234, bots: { camps: 2, kingdoms: 2 }, maxTicks: 6000 });
+
+        expect(SIMULATION_VERSION).toBe(1);
+        expect(result.winnerId).toBe('CAMP_0');
+        expect(result.ticks).toBe(1010);
+        expect(result.players.map(p => [p.id, p.finalLand])).toEqual([
+            ['CAMP_0', 33169],
+            ['CAMP_1', 82],
+            ['KINGDOM_0', 0],
+            ['KINGDOM_1', 67]
+        ]);
+    }, 60000);
+});
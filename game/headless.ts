@@ -0,0 +1,78 @@
+import { GameEngine } from './GameEngine.ts';
+import { SeededRandom } from './Random.ts';
+import { buildMatchRoster, DEFAULT_BOT_COUNTS } from './roster.ts';
+import { MAP_HEIGHT, MAP_WIDTH, TILE_SIZE } from '../constants.ts';
+import { AIType, BotCounts, MatchRules } from '../types.ts';
+
+export interface HeadlessOptions {
+    mapData?: any;        // Stored map (DB row / exported terrain). Procedural map if omitted.
+    seed?: number;
+    bots?: BotCounts;
+    rules?: MatchRules;
+    maxTicks?: number;    // Hard stop for matches that never reach a win condition
+    sampleEvery?: number; // Land curve resolution in logic ticks
+}
+
+export interface HeadlessPlayerResult {
+    id: string;
+    name: string;
+    aiType: AIType;
+    finalLand: number;
+    landCurve: number[];
+}
+
+export interface HeadlessResult {
+    seed: number;
+    mapName: string;
+    winnerId: string | null; // null if maxTicks was reached first
+    winnerName: string | null;
+    ticks: number;
+    durationMs: number;
+    sampleEvery: number;
+    players: HeadlessPlayerResult[];
+}
+
+// Runs an all-AI match to completion as fast as possible, no React or canvas involved.
+export function runHeadlessMatch(options: HeadlessOptions = {}): HeadlessResult {
+    const seed = options.seed ?? SeededRandom.randomSeed();
+    const bots = options.bots ?? DEFAULT_BOT_COUNTS;
+    const maxTicks = options.maxTicks ?? 20000;
+    const sampleEvery = options.sampleEvery ?? 100;
+
+    const engine = new GameEngine({
+        mapWidth: MAP_WIDTH,
+        mapHeight: MAP_HEIGHT,
+        tileSize: TILE_SIZE
+    });
+    const roster = buildMatchRoster([], bots.camps + bots.kingdoms, bots, seed);
+    engine.init(roster, options.mapData, seed, options.rules);
+
+    const curves: Record<string, number[]> = {};
+    engine.players.forEach(p => { curves[p.id] = []; });
+
+    const started = Date.now();
+    while (!engine.isGameOver && engine.tickCount < maxTicks) {
+        engine.step();
+        if (engine.tickCount % sampleEvery === 0) {
+            engine.players.forEach(p => curves[p.id].push(p.landArea));
+        }
+    }
+
+    const winner = engine.winnerId ? engine.getPlayer(engine.winnerId) : undefined;
+    return {
+        seed,
+        mapName: options.mapData?.name || 'Procedural',
+        winnerId: engine.winnerId,
+        winnerName: winner ? winner.name : null,
+        ticks: engine.tickCount,
+        durationMs: Date.now() - started,
+        sampleEvery,
+        players: engine.players.map(p => ({
+            id: p.id,
+            name: p.name,
+            aiType: p.aiType,
+            finalLand: p.landArea,
+            landCurve: curves[p.id]
+        }))
+    };
+}
@@ -0,0 +1,47 @@
+import { AIType, BotCounts, PlayerProfile } from '../types.ts';
+import { PLAYER_COLORS, CAMP_COLOR, CAMP_NAMES, KINGDOM_NAMES } from '../constants.ts';
+import { SeededRandom } from './Random.ts';
+
+export const DEFAULT_BOT_COUNTS: BotCounts = { camps: 30, kingdoms: 8 };
+
+// Fills a lobby's human roster with the bot population:
+// by default 30 Camps plus up to 8 Kingdoms (Kingdoms bounded by the lobby size).
+// Built once by the server: same humans + bots + seed => same ids, names and colors.
+export function buildMatchRoster(humans: PlayerProfile[], maxPlayers: number, bots: BotCounts = DEFAULT_BOT_COUNTS, seed = 0): PlayerProfile[] {
+    const rng = new SeededRandom(seed);
+    const usedColors = new Set<string>();
+    const nextFreeColor = () => PLAYER_COLORS.find(c => !usedColors.has(c)) ?? PLAYER_COLORS[usedColors.size % PLAYER_COLORS.length];
+
+    // Humans keep their account color unless someone earlier in the roster already has it
+    const roster: PlayerProfile[] = humans.map(h => {
+        const color = PLAYER_COLORS.includes(h.color) && !usedColors.has(h.color) ? h.color : nextFreeColor();
+        usedColors.add(color);
+        return { ...h, color };
+    });
+
+    // Add Camps
+    for (let i = 0; i < bots.camps; i++) {
+        roster.push({
+            id: `CAMP_${i}`,
+            name: CAMP_NAMES[rng.nextInt(CAMP_NAMES.length)],
+            isAI: true,
+            aiType: AIType.CAMP,
+            color: CAMP_COLOR
+        });
+    }
+    // Add Kingdoms
+    const kingdomsNeeded = Math.min(bots.kingdoms, maxPlayers - roster.length);
+    for (let i = 0; i < kingdomsNeeded; i++) {
+        const color = nextFreeColor();
+        usedColors.add(color);
+        roster.push({
+            id: `KINGDOM_${i}`,
+            name: KINGDOM_NAMES[i % KINGDOM_NAMES.length],
+            isAI: true,
+            aiType: AIType.KINGDOM,
+            color
+        });
+    }
+
+    return roster;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { GameEngine } from './GameEngine.ts';
+import { buildMatchRoster } from './roster.ts';
+import { SAVE_FORMAT_VERSION } from './serialization.ts';
+import { DEFAULT_MATCH_RULES, MAP_HEIGHT, MAP_WIDTH, TILE_SIZE } from '../constants.ts';
+import { AIType, SavedGameState, UnitType } from '../types.ts';
+
+const newEngine = () => new GameEngine({ mapWidth: MAP_WIDTH, mapHeight: MAP_HEIGHT, tileSize: TILE_SIZE });
+
+// A human with a base and a patrolling squad among a few bots, some way into the match
+function playedEngine(): GameEngine {
+    const human = { id: 'H1', name: 'Tester', isAI: false, aiType: AIType.HUMAN, color: '#ef4444' };
+    const engine = newEngine();
+    engine.init(buildMatchRoster([human], 5, { camps: 2, kingdoms: 2 }, 7), undefined, 7, DEFAULT_MATCH_RULES);
+
+    const spawn = engine.tiles.flat().find(t => engine.isValidSpawn(t.x, t.y))!;
+    engine.spawnHumanBase('H1', spawn.x, spawn.y);
+    while (!engine.isGameActive) engine.step();
+
+    const me = engine.getPlayer('H1')!;
+    me.resources = { ...me.resources, GOLD: 1000, WOOD: 1000, STONE: 1000, FOOD: 1000 };
+    me.ownedTiles.filter(t => !t.building).slice(0, 3).forEach(t => engine.spawnUnit('H1', UnitType.SOLDIER, t.x, t.y));
+    engine.step([{
+        type: 'ORDER_UNITS', playerId: 'H1', unitIds: me.units.map(u => u.id), order: 'PATROL',
+        x: Math.min(spawn.x + 8, MAP_WIDTH - 1), y: spawn.y, formation: 'LINE', queue: false
+    }]);
+    for (let i = 0; i < 200; i++) engine.step();
+    return engine;
+}
+
+describe('GameEngine serialize/deserialize', () => {
+    it('restores a save into an identical engine', () => {
+        const original = playedEngine();
+        const save: SavedGameState = JSON.parse(JSON.stringify(original.serialize())); // As sent over the wire
+
+        const restored = newEngine();
+        restored.deserialize(save);
+
+        expect(restored.serialize()).toEqual(save);
+        expect(restored.computeChecksum()).toBe(original.computeChecksum());
+        expect(restored.getPlayer('H1')!.units.length).toBeGreaterThan(0);
+    });
+
+    it('keeps simulating in lockstep with the original', () => {
+        const original = playedEngine();
+        const restored = newEngine();
+        restored.deserialize(JSON.parse(JSON.stringify(original.serialize())));
+
+        for (let i = 0; i < 150; i++) {
+            original.step();
+            restored.step();
+        }
+        expect(restored.stepCount).toBe(original.stepCount);
+        expect(restored.computeChecksum()).toBe(original.computeChecksum());
+    }, 30000);
+
+    it('rejects saves of another format version', () => {
+        const save = playedEngine().serialize();
+        expect(() => newEngine().deserialize({ ...save, version: SAVE_FORMAT_VERSION - 1 })).toThrow(/save format version/);
+    });
+});
@@ -0,0 +1,122 @@
+import { SavedGameState, Tile } from '../types.ts';
+import { SeededRandom } from './Random.ts';
+import { Diplomacy } from './Diplomacy.ts';
+import { VictoryEvaluator } from './VictoryEvaluator.ts';
+import type { GameEngine } from './GameEngine.ts';
+
+// Bump when SavedGameState changes shape. Older saves are rejected rather than half-restored.
+export const SAVE_FORMAT_VERSION = 10;
+
+// Deep copy so the save never aliases live engine objects
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export function serializeEngine(engine: GameEngine): SavedGameState {
+    const w = engine.config.mapWidth;
+    const h = engine.config.mapHeight;
+    const playerIndex = new Map(engine.players.map((p, i) => [p.id, i]));
+
+    const terrain: number[] = [];
+    const owners: number[] = [];
+    const defense: number[] = [];
+    const buildings: SavedGameState['buildings'] = [];
+
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            const tile = engine.tiles[y][x];
+            terrain.push(tile.type === 'LAND' ? 1 : 0, tile.elevation);
+            owners.push(tile.ownerId ? playerIndex.get(tile.ownerId) ?? -1 : -1);
+            defense.push(tile.defense);
+            if (tile.building) buildings.push(clone(tile.building));
+        }
+    }
+
+    return {
+        version: SAVE_FORMAT_VERSION,
+        config: { ...engine.config },
+        seed: engine.seed,
+        rngState: engine.rng.getState(),
+        tickCount: engine.tickCount,
+        stepCount: engine.stepCount,
+        placementTicks: engine.placementTicks,
+        timeAccumulator: engine.timeAccumulator,
+        isGameActive: engine.isGameActive,
+        winnerId: engine.winnerId,
+        terrain,
+        owners,
+        defense,
+        buildings,
+        // The ownedTiles order drives dispatch order, so it is kept verbatim for an exact resume
+        players: engine.players.map(({ ownedTiles, ...rest }) => ({
+            ...clone(rest),
+            ownedTiles: ownedTiles.map(t => t.y * w + t.x)
+        })),
+        logicAttacks: clone(engine.logicAttacks),
+        wipeOutQueue: engine.wipeOutQueue.map(item => ({ x: item.tile.x, y: item.tile.y, newOwnerId: item.newOwnerId })),
+        diplomacy: engine.diplomacy.getState(),
+        victory: engine.victory.getState(),
+        eliminations: clone(engine.eliminations)
+    };
+}
+
+export function restoreEngine(engine: GameEngine, save: SavedGameState) {
+    if (!save || save.version !== SAVE_FORMAT_VERSION) {
+        throw new Error(`Unsupported save format version: ${save?.version} (expected ${SAVE_FORMAT_VERSION})`);
+    }
+
+    const w = save.config.mapWidth;
+    const h = save.config.mapHeight;
+    engine.config = { ...save.config };
+
+    engine.players = save.players.map(({ ownedTiles, ...rest }) => ({ ...clone(rest), ownedTiles: [] }));
+
+    engine.tiles = [];
+    engine.totalLandTiles = 0;
+    for (let y = 0; y < h; y++) {
+        const row: Tile[] = [];
+        for (let x = 0; x < w; x++) {
+            const idx = y * w + x;
+            const type = save.terrain[idx * 2] === 1 ? 'LAND' : 'WATER';
+            if (type === 'LAND') engine.totalLandTiles++;
+
+            const owner = save.owners[idx] >= 0 ? engine.players[save.owners[idx]] : undefined;
+            const tile: Tile = {
+                x, y,
+                type,
+                elevation: save.terrain[idx * 2 + 1],
+                ownerId: owner ? owner.id : null,
+                building: null,
+                defense: save.defense[idx]
+            };
+            row.push(tile);
+        }
+        engine.tiles.push(row);
+    }
+
+    save.players.forEach((sp, i) => {
+        engine.players[i].ownedTiles = sp.ownedTiles.map(idx => engine.tiles[Math.floor(idx / w)][idx % w]);
+    });
+
+    save.buildings.forEach(b => {
+        if (engine.isValid(b.x, b.y)) engine.tiles[b.y][b.x].building = clone(b);
+    });
+
+    engine.logicAttacks = clone(save.logicAttacks);
+    engine.attacks = [];
+    engine.wipeOutQueue = save.wipeOutQueue
+        .filter(item => engine.isValid(item.x, item.y))
+        .map(item => ({ tile: engine.tiles[item.y][item.x], newOwnerId: item.newOwnerId }));
+    engine.diplomacy = new Diplomacy(clone(save.diplomacy));
+    engine.victory = new VictoryEvaluator({ ...save.victory });
+    engine.eliminations = clone(save.eliminations);
+
+    engine.seed = save.seed;
+    engine.rng = new SeededRandom(save.seed);
+    engine.rng.setState(save.rngState);
+
+    engine.tickCount = save.tickCount;
+    engine.stepCount = save.stepCount;
+    engine.placementTicks = save.placementTicks;
+    engine.timeAccumulator = save.timeAccumulator;
+    engine.isGameActive = save.isGameActive;
+    engine.winnerId = save.winnerId;
+}
@@ -0,0 +1,145 @@
+import { runHeadlessMatch, HeadlessResult } from '../game/headless.ts';
+import { DEFAULT_BOT_COUNTS } from '../game/roster.ts';
+import { BOT_DIFFICULTY_COMMITMENT, DEFAULT_GAME_MODES, DEFAULT_MATCH_RULES } from '../constants.ts';
+import { BotDifficulty, GameMode, MatchRules } from '../types.ts';
+
+// Batch bot-vs-bot simulations for balancing BUILDING_STATS / UNIT_STATS.
+//
+// Usage:
+//   node --loader ts-node/esm scripts/simulate.ts [options]
+//
+//   --matches N      Number of matches to run (default 1)
+//   --map ID         Stored map id, or "random" for a random stored map (default: procedural)
+//   --seed S         Seed of the first match, following matches use S+1, S+2... (default: random)
+//   --camps N        Camp bots per match (default 30)
+//   --kingdoms N     Kingdom bots per match (default 8)
+//   --mode M         conquest, timed, regicide or hill (default conquest)
+//   --win P          Conquest: percentage of the land needed to win (default 80)
+//   --minutes N      Timed: match length in minutes (default 20)
+//   --hold N         Hill: seconds the hill must be held (default 120)
+//   --difficulty D   Bot difficulty: EASY, NORMAL or HARD (default NORMAL)
+//   --max-ticks N    Stop a match after N logic ticks (default 20000)
+//   --sample N       Land curve resolution in ticks (default 100)
+//   --json           Print raw results as JSON instead of the text report
+
+function parseArgs(argv: string[]) {
+    const args: Record<string, string | boolean> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) continue;
+        const key = arg.slice(2);
+        const next = argv[i + 1];
+        if (next === undefined || next.startsWith('--')) {
+            args[key] = true;
+        } else {
+            args[key] = next;
+            i++;
+        }
+    }
+    return args;
+}
+
+function intArg(value: string | boolean | undefined, fallback: number): number {
+    if (typeof value !== 'string') return fallback;
+    const n = parseInt(value, 10);
+    return Number.isNaN(n) ? fallback : n;
+}
+
+function parseMode(args: Record<string, string | boolean>): GameMode {
+    const name = typeof args.mode === 'string' ? args.mode.toLowerCase() : 'conquest';
+    switch (name) {
+        case 'conquest':
+            return { type: 'CONQUEST', winPercentage: intArg(args.win, DEFAULT_GAME_MODES.CONQUEST.winPercentage) };
+        case 'timed':
+            return { type: 'TIMED', minutes: intArg(args.minutes, DEFAULT_GAME_MODES.TIMED.minutes) };
+        case 'regicide':
+            return { type: 'REGICIDE' };
+        case 'hill':
+            return { ...DEFAULT_GAME_MODES.KING_OF_THE_HILL, holdSeconds: intArg(args.hold, DEFAULT_GAME_MODES.KING_OF_THE_HILL.holdSeconds) };
+        default:
+            console.error(`Unknown mode "${args.mode}" (conquest, timed, regicide or hill)`);
+            process.exit(1);
+    }
+}
+
+async function loadMap(mapArg: string | boolean | undefined): Promise<any> {
+    if (typeof mapArg !== 'string') return undefined;
+
+    // Only touch the DB when a stored map was requested
+    const db = await import('../server/db.ts');
+    const map = mapArg === 'random' ? await db.dbGetRandomMap() : await db.dbGetMap(mapArg);
+    if (!map) {
+        console.error(`Map "${mapArg}" not found (is NETLIFY_DATABASE_URL set?)`);
+        process.exit(1);
+    }
+    return map;
+}
+
+function printResult(result: HeadlessResult, index: number, total: number) {
+    const winner = result.winnerName ? `${result.winnerName} (${result.players.find(p => p.id === result.winnerId)?.aiType})` : 'NONE (max ticks)';
+    console.log(`[${index + 1}/${total}] seed=${result.seed} map=${result.mapName} winner=${winner} ticks=${result.ticks} (${(result.durationMs / 1000).toFixed(1)}s)`);
+
+    result.players
+        .filter(p => p.landCurve.some(v => v > 0))
+        .sort((a, b) => b.finalLand - a.finalLand)
+        .forEach(p => {
+            console.log(`  ${p.name.padEnd(12)} ${p.aiType.padEnd(8)} ${String(p.finalLand).padStart(6)} | ${p.landCurve.join(' ')}`);
+        });
+}
+
+async function run() {
+    const args = parseArgs(process.argv.slice(2));
+    const matches = intArg(args.matches, 1);
+    const firstSeed = typeof args.seed === 'string' ? intArg(args.seed, 0) : undefined;
+    const bots = {
+        camps: intArg(args.camps, DEFAULT_BOT_COUNTS.camps),
+        kingdoms: intArg(args.kingdoms, DEFAULT_BOT_COUNTS.kingdoms)
+    };
+    const difficulty = typeof args.difficulty === 'string' ? args.difficulty.toUpperCase() : DEFAULT_MATCH_RULES.botDifficulty;
+    if (!Object.hasOwn(BOT_DIFFICULTY_COMMITMENT, difficulty)) {
+        console.error(`Unknown difficulty "${args.difficulty}" (EASY, NORMAL or HARD)`);
+        process.exit(1);
+    }
+    const rules: MatchRules = {
+        ...DEFAULT_MATCH_RULES, // Bots never form teams
+        mode: parseMode(args),
+        botDifficulty: difficulty as BotDifficulty
+    };
+    const maxTicks = intArg(args['max-ticks'], 20000);
+    const sampleEvery = intArg(args.sample, 100);
+    const mapData = await loadMap(args.map);
+
+    const results: HeadlessResult[] = [];
+    for (let i = 0; i < matches; i++) {
+        // Re-roll a random stored map for every match
+        const matchMap = args.map === 'random' && i > 0 ? await loadMap('random') : mapData;
+        const result = runHeadlessMatch({
+            mapData: matchMap,
+            seed: firstSeed !== undefined ? firstSeed + i : undefined,
+            bots,
+            rules,
+            maxTicks,
+            sampleEvery
+        });
+        results.push(result);
+        if (!args.json) printResult(result, i, matches);
+    }
+
+    if (args.json) {
+        console.log(JSON.stringify(results));
+    } else {
+        // Summary: wins per bot type, timeouts and average length
+        const wins: Record<string, number> = {};
+        results.forEach(r => {
+            const winner = r.players.find(p => p.id === r.winnerId);
+            const key = winner ? winner.aiType : 'TIMEOUT';
+            wins[key] = (wins[key] || 0) + 1;
+        });
+        const avgTicks = results.reduce((sum, r) => sum + r.ticks, 0) / Math.max(1, results.length);
+        console.log(`\n${results.length} matches, avg ${Math.round(avgTicks)} ticks. Wins: ${Object.entries(wins).map(([k, v]) => `${k}=${v}`).join(' ')}`);
+    }
+
+    process.exit(0);
+}
+
+run();
@@ -2,6 +2,7 @@ import { io } from 'socket.io-client';
 import pg from 'pg';
 import dotenv from 'dotenv';
 import path from 'path';
+import { GAME_TICK_RATE, SNAPSHOT_INTERVAL } from '../constants.ts';
 
 dotenv.config({ path: path.resolve(process.cwd(), '.env') });
 
@@ -55,17 +56,9 @@ async function runTest() {
             });
 
             socket.on('game_start', (data: any) => {
-                console.log('Game Started! Sending Snapshot...');
+                console.log('Game Started! Waiting for the server snapshot...');
 
-                // 4. Send Snapshot
-                const mockSnapshot = { test: true, timestamp: Date.now() };
-                socket.emit('save_snapshot', {
-                    lobbyId: data.lobby.id,
-                    tick: 100,
-                    state: mockSnapshot
-                });
-
-                // Wait a bit for DB save then check
+                // 4. The server persists the match on its own every SNAPSHOT_INTERVAL steps
                 setTimeout(async () => {
                     console.log('Checking DB for snapshot...');
                     const res = await pool.query('SELECT * FROM snapshots WHERE game_id = $1', [data.lobby.id]);
@@ -73,14 +66,14 @@ async function runTest() {
                     if (res.rows.length > 0) {
                         console.log('✅ SUCCESS: Snapshot found in DB for game', data.lobby.id);
                         const row = res.rows[0];
-                        console.log('Snapshot data:', row.state);
+                        console.log('Snapshot step:', row.tick);
                     } else {
                         console.error('❌ FAILURE: No snapshot found in DB');
                     }
 
                     socket.disconnect();
                     resolve();
-                }, 2000);
+                }, SNAPSHOT_INTERVAL * GAME_TICK_RATE + 2000);
             });
 
             // Timeout safety
@@ -88,7 +81,7 @@ async function runTest() {
                 console.log('Test timed out waiting for game start/snapshot.');
                 socket.disconnect();
                 resolve();
-            }, 10000);
+            }, SNAPSHOT_INTERVAL * GAME_TICK_RATE + 10000);
         });
 
     } catch (err) {
@@ -0,0 +1,150 @@
+import { GameEngine } from '../game/GameEngine.ts';
+import { StateSync } from '../game/StateSync.ts';
+import { SeededRandom } from '../game/Random.ts';
+import { ReplayRecorder } from '../game/Replay.ts';
+import { CHECKSUM_INTERVAL, GAME_TICK_RATE, MAP_HEIGHT, MAP_WIDTH, SNAPSHOT_INTERVAL, TILE_SIZE } from '../constants.ts';
+import { GameCommand, GameStateSync, LockstepBatch, MatchLog, NetMode, MatchRules, PlayerProfile, ReplayData, SavedGameState } from '../types.ts';
+
+// How many recent checksums are kept to verify late client reports
+const CHECKSUM_HISTORY = 20;
+
+export interface MatchHostCallbacks {
+    onState: (sync: GameStateSync) => void;
+    onBatch: (batch: LockstepBatch) => void;
+    onGameOver: (log: MatchLog | null) => void;
+    onSnapshot?: (step: number, save: SavedGameState) => void; // Every SNAPSHOT_INTERVAL steps, for crash recovery
+}
+
+// Hosts the authoritative GameEngine of a lobby and steps it at GAME_TICK_RATE.
+// In LOCKSTEP mode the server still simulates, acting as the reference peer for checksums.
+export class MatchHost {
+    engine: GameEngine;
+    roster: PlayerProfile[];
+    netMode: NetMode;
+    private sync = new StateSync();
+    private pendingCommands: GameCommand[] = [];
+    private hasSentState = false;
+    private checksums = new Map<number, number>();
+    private interval: ReturnType<typeof setInterval> | null = null;
+    private recorder: ReplayRecorder | null = null; // Only matches hosted from step 0 can be replayed
+    private callbacks: MatchHostCallbacks;
+
+    constructor(matchId: string, roster: PlayerProfile[], mapData: any, netMode: NetMode, callbacks: MatchHostCallbacks, seed: number = SeededRandom.randomSeed(), rules?: MatchRules, save?: SavedGameState) {
+        this.roster = roster;
+        this.netMode = netMode;
+        this.callbacks = callbacks;
+        this.engine = new GameEngine({
+            mapWidth: MAP_WIDTH,
+            mapHeight: MAP_HEIGHT,
+            tileSize: TILE_SIZE
+        });
+        if (save) {
+            this.engine.deserialize(save);
+        } else {
+            this.engine.init(roster, mapData, seed, rules);
+            this.recorder = new ReplayRecorder();
+        }
+        this.engine.config.matchId = matchId;
+    }
+
+    // Resumes a match from a save, e.g. after a server restart. Throws on an unsupported save version.
+    static fromSave(matchId: string, save: SavedGameState, netMode: NetMode, callbacks: MatchHostCallbacks): MatchHost {
+        const roster: PlayerProfile[] = save.players.map(p => ({
+            id: p.id,
+            name: p.name,
+            isAI: p.isAI,
+            aiType: p.aiType,
+            color: p.color
+        }));
+        return new MatchHost(matchId, roster, null, netMode, callbacks, save.seed, save.config.rules, save);
+    }
+
+    get seed(): number {
+        return this.engine.seed;
+    }
+
+    get isRunning(): boolean {
+        return this.interval !== null;
+    }
+
+    start() {
+        if (this.interval) return;
+        this.interval = setInterval(() => this.tick(), GAME_TICK_RATE);
+    }
+
+    stop() {
+        if (this.interval) {
+            clearInterval(this.interval);
+            this.interval = null;
+        }
+    }
+
+    queueCommand(cmd: GameCommand) {
+        this.pendingCommands.push(cmd);
+    }
+
+    // Terrain of the simulated map, shipped once in game_start
+    getMapData(): any {
+        return this.engine.exportTerrain();
+    }
+
+    getFullState(): GameStateSync {
+        return this.sync.encode(this.engine, true);
+    }
+
+    // Complete engine state, enough for a client to rebuild (or a lockstep peer to resync)
+    getSave(): SavedGameState {
+        return this.engine.serialize();
+    }
+
+    // Commands recorded so far, null for matches resumed from a save
+    buildReplay(info: { id: string, mapId: string, mapName: string }): ReplayData | null {
+        if (!this.recorder) return null;
+        return this.recorder.finish({ ...info, seed: this.seed, roster: this.roster, rules: this.engine.rules }, this.engine);
+    }
+
+    // Compares a peer's checksum with ours. Returns null if we no longer (or never) had that step.
+    verifyChecksum(step: number, checksum: number): boolean | null {
+        const expected = this.checksums.get(step);
+        if (expected === undefined) return null;
+        return expected === checksum;
+    }
+
+    // A throw inside setInterval would take the whole server down, every other match with it
+    private tick() {
+        try {
+            this.advance();
+        } catch (err) {
+            console.error(`Match ${this.engine.config.matchId} failed at step ${this.engine.stepCount}:`, err);
+        }
+    }
+
+    private advance() {
+        const commands = this.pendingCommands;
+        this.pendingCommands = [];
+        this.engine.step(commands);
+
+        const step = this.engine.stepCount;
+        this.recorder?.record(step, commands);
+        if (step % CHECKSUM_INTERVAL === 0) {
+            this.checksums.set(step, this.engine.computeChecksum());
+            this.checksums.delete(step - CHECKSUM_INTERVAL * CHECKSUM_HISTORY);
+        }
+
+        if (this.netMode === 'LOCKSTEP') {
+            this.callbacks.onBatch({ step, commands });
+        } else {
+            this.callbacks.onState(this.sync.encode(this.engine, !this.hasSentState));
+            this.hasSentState = true;
+        }
+
+        if (step % SNAPSHOT_INTERVAL === 0 && !this.engine.isGameOver) {
+            this.callbacks.onSnapshot?.(step, this.engine.serialize());
+        }
+
+        if (this.engine.isGameOver) {
+            this.stop();
+            this.callbacks.onGameOver(this.engine.getMatchLog());
+        }
+    }
+}
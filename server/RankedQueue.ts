@@ -0,0 +1,69 @@
+// Players of similar rating are grouped into ranked lobbies. The accepted rating
+// gap widens the longer someone waits, so nobody is stuck in the queue forever.
+
+const GROUP_SIZE = 4;
+const MIN_GROUP_SIZE = 2;
+const FULL_GROUP_WAIT_MS = 30000; // After this, a group smaller than GROUP_SIZE is good enough
+const BASE_RATING_WINDOW = 100;
+const WINDOW_GROWTH_PER_10S = 50;
+const MAX_RATING_WINDOW = 600;
+
+export interface QueueEntry {
+    playerId: string;
+    rating: number;
+    queuedAt: number;
+}
+
+export class RankedQueue {
+    private entries: QueueEntry[] = [];
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    has(playerId: string): boolean {
+        return this.entries.some(e => e.playerId === playerId);
+    }
+
+    add(entry: QueueEntry) {
+        if (this.has(entry.playerId)) return;
+        this.entries.push(entry);
+    }
+
+    remove(playerId: string) {
+        this.entries = this.entries.filter(e => e.playerId !== playerId);
+    }
+
+    // Takes every group that is ready to play out of the queue, longest waiting players first
+    popGroups(now: number): QueueEntry[][] {
+        const waiting = [...this.entries].sort((a, b) => a.queuedAt - b.queuedAt);
+        const taken = new Set<QueueEntry>();
+        const groups: QueueEntry[][] = [];
+
+        for (const anchor of waiting) {
+            if (taken.has(anchor)) continue;
+
+            const opponents = waiting
+                .filter(e => e !== anchor && !taken.has(e)
+                    && Math.abs(e.rating - anchor.rating) <= Math.min(this.window(anchor, now), this.window(e, now)))
+                .sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating))
+                .slice(0, GROUP_SIZE - 1);
+            const group = [anchor, ...opponents];
+
+            const ready = group.length === GROUP_SIZE
+                || (group.length >= MIN_GROUP_SIZE && now - anchor.queuedAt >= FULL_GROUP_WAIT_MS);
+            if (!ready) continue;
+
+            group.forEach(e => taken.add(e));
+            groups.push(group);
+        }
+
+        this.entries = this.entries.filter(e => !taken.has(e));
+        return groups;
+    }
+
+    private window(entry: QueueEntry, now: number): number {
+        const waited = Math.floor((now - entry.queuedAt) / 10000);
+        return Math.min(MAX_RATING_WINDOW, BASE_RATING_WINDOW + waited * WINDOW_GROWTH_PER_10S);
+    }
+}
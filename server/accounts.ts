@@ -0,0 +1,119 @@
+import { createHash, randomBytes, randomInt } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { dbCreatePlayer, dbGetPlayer, dbSavePlayer, dbTouchPlayer, dbUpdateRating } from './db.ts';
+import { computeRatings, DEFAULT_RATING, RatedPlacement } from './rating.ts';
+import { Credentials, PlayerStanding } from '../types.ts';
+import { PLAYER_COLORS } from '../constants.ts';
+
+export interface Account {
+    id: string;
+    name: string;
+    color: string;
+    createdAt: number;
+    lastSeen: number;
+    rating: number;
+    ratedGames: number;
+}
+
+interface StoredAccount extends Account {
+    claimTokenHash: string;
+}
+
+// Cache in front of the players table, and the only store in in-memory mode
+const accounts = new Map<string, StoredAccount>();
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+function toAccount({ claimTokenHash, ...account }: StoredAccount): Account {
+    return { ...account };
+}
+
+// New identity. The raw claim token is returned exactly once, only its hash is stored.
+export async function createAccount(name: string): Promise<{ account: Account, credentials: Credentials }> {
+    const claimToken = randomBytes(24).toString('hex');
+    const stored: StoredAccount = {
+        id: uuidv4(),
+        name,
+        color: PLAYER_COLORS[randomInt(PLAYER_COLORS.length)], // Random persistent color
+        createdAt: Date.now(),
+        lastSeen: Date.now(),
+        rating: DEFAULT_RATING,
+        ratedGames: 0,
+        claimTokenHash: hashToken(claimToken)
+    };
+    accounts.set(stored.id, stored);
+    await dbCreatePlayer(stored.id, stored.name, stored.color, stored.claimTokenHash);
+
+    return { account: toAccount(stored), credentials: { playerId: stored.id, claimToken } };
+}
+
+// Cache first, then the players table. Rows without a claim token can't be logged into.
+async function loadAccount(id: string): Promise<StoredAccount | null> {
+    const cached = accounts.get(id);
+    if (cached) return cached;
+
+    const row = await dbGetPlayer(id);
+    if (!row || !row.claim_token_hash) return null;
+    const stored: StoredAccount = {
+        id: row.id,
+        name: row.name,
+        color: PLAYER_COLORS.includes(row.color) ? row.color : '#a855f7', // Rows from before accounts have none
+        createdAt: new Date(row.created_at).getTime(),
+        lastSeen: new Date(row.last_seen).getTime(),
+        rating: row.rating ?? DEFAULT_RATING,
+        ratedGames: row.rated_games ?? 0,
+        claimTokenHash: row.claim_token_hash
+    };
+    accounts.set(stored.id, stored);
+    return stored;
+}
+
+// Resolves credentials to their account, or null if the id is unknown or the token doesn't match
+export async function authenticate(credentials: Credentials | null | undefined): Promise<Account | null> {
+    if (!credentials || !credentials.playerId || !credentials.claimToken) return null;
+
+    const stored = await loadAccount(credentials.playerId);
+    if (!stored || stored.claimTokenHash !== hashToken(credentials.claimToken)) return null;
+
+    stored.lastSeen = Date.now();
+    await dbSavePlayer(stored.id, stored.name); // Also bumps last_seen
+    return toAccount(stored);
+}
+
+export async function renameAccount(id: string, name: string) {
+    const stored = accounts.get(id);
+    if (!stored || stored.name === name) return;
+    stored.name = name;
+    await dbSavePlayer(id, name);
+}
+
+export function touchAccount(id: string) {
+    const stored = accounts.get(id);
+    if (stored) stored.lastSeen = Date.now();
+    dbTouchPlayer(id);
+}
+
+export async function getRating(id: string): Promise<number> {
+    return (await loadAccount(id))?.rating ?? DEFAULT_RATING;
+}
+
+// Updates the rating of every human participant from the final standings
+export async function recordRatedMatch(standings: PlayerStanding[]) {
+    const rated: (RatedPlacement & { stored: StoredAccount })[] = [];
+    for (const s of standings) {
+        if (s.isAI) continue;
+        const stored = await loadAccount(s.playerId);
+        if (stored) rated.push({ playerId: stored.id, rating: stored.rating, ratedGames: stored.ratedGames, placement: s.placement, stored });
+    }
+
+    const ratings = computeRatings(rated);
+    for (const { stored } of rated) {
+        const rating = ratings.get(stored.id);
+        if (rating === undefined) continue;
+        stored.rating = rating;
+        stored.ratedGames++;
+        await dbUpdateRating(stored.id, stored.rating, stored.ratedGames);
+    }
+}
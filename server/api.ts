@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { validate as isUuid } from 'uuid';
+import { dbGetGameRecord, dbGetLeaderboard, dbGetPlayerStats } from './db.ts';
+
+// Read-only stats API (leaderboard screen, external tools).
+// Everything comes from the database, in in-memory mode the lists are empty.
+export const apiRouter = Router();
+
+const MAX_PAGE_SIZE = 100;
+
+function intParam(value: unknown, fallback: number, max: number): number {
+    const n = parseInt(String(value), 10);
+    return Number.isNaN(n) || n < 0 ? fallback : Math.min(n, max);
+}
+
+// The client is served from another origin (Vite dev server)
+apiRouter.use((req, res, next) => {
+    res.set('Access-Control-Allow-Origin', '*');
+    next();
+});
+
+// GET /api/leaderboard?limit=50&offset=0
+apiRouter.get('/leaderboard', async (req, res) => {
+    const limit = intParam(req.query.limit, 50, MAX_PAGE_SIZE);
+    const offset = intParam(req.query.offset, 0, Number.MAX_SAFE_INTEGER);
+    res.json(await dbGetLeaderboard(limit, offset));
+});
+
+// GET /api/players/:id?history=20
+apiRouter.get('/players/:id', async (req, res) => {
+    const stats = isUuid(req.params.id)
+        ? await dbGetPlayerStats(req.params.id, intParam(req.query.history, 20, MAX_PAGE_SIZE))
+        : null;
+    if (!stats) {
+        res.status(404).json({ error: 'Player not found' });
+        return;
+    }
+    res.json(stats);
+});
+
+// GET /api/games/:id (lobby id)
+apiRouter.get('/games/:id', async (req, res) => {
+    const game = await dbGetGameRecord(req.params.id.toUpperCase());
+    if (!game) {
+        res.status(404).json({ error: 'Game not found' });
+        return;
+    }
+    res.json(game);
+});
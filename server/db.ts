@@ -1,5 +1,6 @@
 import pg from 'pg';
 import dotenv from 'dotenv';
+import { GameRecord, LeaderboardEntry, MatchHistoryEntry, PlayerProfile, PlayerStanding, PlayerStats, ReplayData, ReplaySummary } from '../types.ts';
 
 dotenv.config();
 
@@ -8,6 +9,10 @@ const { Pool } = pg;
 let pool: pg.Pool | null = null;
 export let isDbConnected = false;
 
+// Resolves once the connection attempt is over and tables exist (immediately in in-memory mode)
+let markDbReady: () => void = () => {};
+export const dbReady = new Promise<void>(resolve => { markDbReady = resolve; });
+
 if (process.env.NETLIFY_DATABASE_URL) {
     pool = new Pool({
         connectionString: process.env.NETLIFY_DATABASE_URL,
@@ -20,13 +25,14 @@ if (process.env.NETLIFY_DATABASE_URL) {
     pool.connect().then(() => {
         console.log('Connected to Neon Database');
         isDbConnected = true;
-        initDB();
+        return initDB();
     }).catch(err => {
         console.error('Failed to connect to Neon Database:', err.message);
         pool = null;
-    });
+    }).finally(() => markDbReady());
 } else {
     console.warn('NETLIFY_DATABASE_URL not found. Running in in-memory mode.');
+    markDbReady();
 }
 
 async function initDB() {
@@ -41,6 +47,15 @@ async function initDB() {
             );
         `);
 
+        // Accounts: older rows have no claim token and can't be logged into
+        await pool.query(`
+            ALTER TABLE players
+                ADD COLUMN IF NOT EXISTS color TEXT,
+                ADD COLUMN IF NOT EXISTS claim_token_hash TEXT,
+                ADD COLUMN IF NOT EXISTS rating INTEGER NOT NULL DEFAULT 1200,
+                ADD COLUMN IF NOT EXISTS rated_games INTEGER NOT NULL DEFAULT 0;
+        `);
+
         await pool.query(`
             CREATE TABLE IF NOT EXISTS games (
                 id TEXT PRIMARY KEY,
@@ -52,6 +67,32 @@ async function initDB() {
             );
         `);
 
+        // Final standings, one row per participant (bots included, so no players reference)
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS game_results (
+                game_id TEXT REFERENCES games(id),
+                player_id TEXT NOT NULL,
+                player_name TEXT NOT NULL,
+                is_ai BOOLEAN NOT NULL,
+                placement INTEGER NOT NULL,
+                peak_land INTEGER NOT NULL,
+                final_population INTEGER NOT NULL,
+                buildings_built INTEGER NOT NULL,
+                units_raised INTEGER NOT NULL,
+                eliminated_at_tick INTEGER,
+                PRIMARY KEY (game_id, player_id)
+            );
+        `);
+
+        await pool.query(`
+            ALTER TABLE games
+                ADD COLUMN IF NOT EXISTS ranked BOOLEAN NOT NULL DEFAULT FALSE,
+                ADD COLUMN IF NOT EXISTS invite_code TEXT,
+                ADD COLUMN IF NOT EXISTS roster JSONB;
+        `);
+
+        await pool.query(`ALTER TABLE game_results ADD COLUMN IF NOT EXISTS eliminated_by TEXT;`);
+
         await pool.query(`
             CREATE TABLE IF NOT EXISTS snapshots (
                 id SERIAL PRIMARY KEY,
@@ -73,6 +114,25 @@ async function initDB() {
             );
         `);
 
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS replays (
+                id TEXT PRIMARY KEY,
+                seed BIGINT NOT NULL,
+                map_id TEXT NOT NULL,
+                map_name TEXT NOT NULL,
+                roster JSONB NOT NULL,
+                commands JSONB NOT NULL,
+                total_steps INTEGER NOT NULL,
+                winner_id TEXT,
+                winner_name TEXT,
+                created_at TIMESTAMP DEFAULT NOW()
+            );
+        `);
+
+        await pool.query(`ALTER TABLE replays ADD COLUMN IF NOT EXISTS rules JSONB;`);
+        // Replays from before versioning have none and can't be played back
+        await pool.query(`ALTER TABLE replays ADD COLUMN IF NOT EXISTS simulation_version INTEGER;`);
+
         console.log('Database tables initialized.');
     } catch (err: any) {
         console.error('Error initializing DB tables:', err.message);
@@ -81,6 +141,7 @@ async function initDB() {
 
 // --- DATA ACCESS METHODS ---
 
+// Only the latest snapshot of a game is ever resumed from, so it replaces the older ones
 export async function dbSaveSnapshot(gameId: string, tick: number, state: any) {
     if (!pool) return;
     try {
@@ -88,11 +149,60 @@ export async function dbSaveSnapshot(gameId: string, tick: number, state: any) {
             INSERT INTO snapshots (game_id, tick, state)
             VALUES ($1, $2, $3)
         `, [gameId, tick, JSON.stringify(state)]);
+        await pool.query(`DELETE FROM snapshots WHERE game_id = $1 AND tick < $2`, [gameId, tick]);
     } catch (err: any) {
         console.error('dbSaveSnapshot error:', err.message);
     }
 }
 
+// Most recent snapshot of a game, as saved by dbSaveSnapshot
+export async function dbGetLatestSnapshot(gameId: string) {
+    if (!pool) return null;
+    try {
+        const res = await pool.query(`
+            SELECT * FROM snapshots WHERE game_id = $1
+            ORDER BY tick DESC, id DESC LIMIT 1
+        `, [gameId]);
+        return res.rows[0]?.state || null;
+    } catch (err: any) {
+        console.error('dbGetLatestSnapshot error:', err.message);
+        return null;
+    }
+}
+
+// Games that were running when the server went down
+export async function dbGetInProgressGames() {
+    if (!pool) return [];
+    try {
+        const res = await pool.query(`SELECT * FROM games WHERE status = 'IN_PROGRESS'`);
+        return res.rows;
+    } catch (err: any) {
+        console.error('dbGetInProgressGames error:', err.message);
+        return [];
+    }
+}
+
+export async function dbCreatePlayer(id: string, name: string, color: string, claimTokenHash: string) {
+    if (!pool) return;
+    try {
+        await pool.query(`
+            INSERT INTO players (id, name, color, claim_token_hash)
+            VALUES ($1, $2, $3, $4)
+        `, [id, name, color, claimTokenHash]);
+    } catch (err: any) {
+        console.error('dbCreatePlayer error:', err.message);
+    }
+}
+
+export async function dbTouchPlayer(id: string) {
+    if (!pool) return;
+    try {
+        await pool.query(`UPDATE players SET last_seen = NOW() WHERE id = $1`, [id]);
+    } catch (err: any) {
+        console.error('dbTouchPlayer error:', err.message);
+    }
+}
+
 export async function dbSavePlayer(id: string, name: string) {
     if (!pool) return;
     try {
@@ -106,6 +216,15 @@ export async function dbSavePlayer(id: string, name: string) {
     }
 }
 
+export async function dbUpdateRating(id: string, rating: number, ratedGames: number) {
+    if (!pool) return;
+    try {
+        await pool.query(`UPDATE players SET rating = $1, rated_games = $2 WHERE id = $3`, [rating, ratedGames, id]);
+    } catch (err: any) {
+        console.error('dbUpdateRating error:', err.message);
+    }
+}
+
 export async function dbGetPlayer(id: string) {
     if (!pool) return null;
     try {
@@ -117,14 +236,14 @@ export async function dbGetPlayer(id: string) {
     }
 }
 
-export async function dbCreateGame(id: string, mapName: string, status: string) {
+export async function dbCreateGame(id: string, mapName: string, status: string, ranked = false, inviteCode: string | null = null) {
     if (!pool) return;
     try {
         await pool.query(`
-            INSERT INTO games (id, map_name, status)
-            VALUES ($1, $2, $3)
+            INSERT INTO games (id, map_name, status, ranked, invite_code)
+            VALUES ($1, $2, $3, $4, $5)
             ON CONFLICT (id) DO NOTHING
-        `, [id, mapName, status]);
+        `, [id, mapName, status, ranked, inviteCode]);
     } catch (err: any) {
         console.error('dbCreateGame error:', err.message);
     }
@@ -133,7 +252,7 @@ export async function dbCreateGame(id: string, mapName: string, status: string)
 export async function dbUpdateGameStatus(id: string, status: string, winnerId: string | null = null) {
     if (!pool) return;
     try {
-        if (winnerId) {
+        if (status === 'FINISHED') {
             await pool.query(`UPDATE games SET status = $1, winner_id = $2, ended_at = NOW() WHERE id = $3`, [status, winnerId, id]);
         } else {
             await pool.query(`UPDATE games SET status = $1 WHERE id = $2`, [status, id]);
@@ -143,6 +262,158 @@ export async function dbUpdateGameStatus(id: string, status: string, winnerId: s
     }
 }
 
+// Everyone who took part, as built by the server when the match started
+export async function dbSaveGameRoster(id: string, roster: PlayerProfile[]) {
+    if (!pool) return;
+    try {
+        await pool.query(`UPDATE games SET roster = $1 WHERE id = $2`, [JSON.stringify(roster), id]);
+    } catch (err: any) {
+        console.error('dbSaveGameRoster error:', err.message);
+    }
+}
+
+export async function dbSaveGameResults(gameId: string, standings: PlayerStanding[]) {
+    if (!pool) return;
+    try {
+        for (const s of standings) {
+            await pool.query(`
+                INSERT INTO game_results (game_id, player_id, player_name, is_ai, placement, peak_land, final_population, buildings_built, units_raised, eliminated_at_tick, eliminated_by)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                ON CONFLICT (game_id, player_id) DO NOTHING
+            `, [gameId, s.playerId, s.name, s.isAI, s.placement, s.peakLand, s.finalPopulation, s.buildingsBuilt, s.unitsRaised, s.eliminatedAtTick, s.eliminatedById]);
+        }
+    } catch (err: any) {
+        console.error('dbSaveGameResults error:', err.message);
+    }
+}
+
+// --- STATS QUERIES (REST API) ---
+
+const toTime = (value: any): number | null => value ? new Date(value).getTime() : null;
+
+function toStanding(row: any): PlayerStanding {
+    return {
+        playerId: row.player_id,
+        name: row.player_name,
+        isAI: row.is_ai,
+        placement: row.placement,
+        peakLand: row.peak_land,
+        finalPopulation: row.final_population,
+        buildingsBuilt: row.buildings_built,
+        unitsRaised: row.units_raised,
+        eliminatedAtTick: row.eliminated_at_tick,
+        eliminatedById: row.eliminated_by ?? null
+    };
+}
+
+// Accounts that played at least one finished game, best rating first
+export async function dbGetLeaderboard(limit: number, offset: number): Promise<LeaderboardEntry[]> {
+    if (!pool) return [];
+    try {
+        const res = await pool.query(`
+            SELECT p.id, p.name, p.color, p.rating,
+                   COUNT(r.game_id) AS games,
+                   COUNT(r.game_id) FILTER (WHERE r.placement = 1) AS wins
+            FROM players p
+            JOIN game_results r ON r.player_id = p.id::text
+            GROUP BY p.id
+            ORDER BY p.rating DESC, wins DESC, p.name
+            LIMIT $1 OFFSET $2
+        `, [limit, offset]);
+        return res.rows.map((row, i) => ({
+            rank: offset + i + 1,
+            playerId: row.id,
+            name: row.name,
+            color: row.color || '#a855f7',
+            rating: row.rating,
+            gamesPlayed: Number(row.games),
+            wins: Number(row.wins)
+        }));
+    } catch (err: any) {
+        console.error('dbGetLeaderboard error:', err.message);
+        return [];
+    }
+}
+
+export async function dbGetPlayerStats(id: string, historyLimit = 20): Promise<PlayerStats | null> {
+    if (!pool) return null;
+    try {
+        const playerRes = await pool.query(`SELECT * FROM players WHERE id = $1`, [id]);
+        const player = playerRes.rows[0];
+        if (!player) return null;
+
+        const totalsRes = await pool.query(`
+            SELECT COUNT(*) AS games, COUNT(*) FILTER (WHERE placement = 1) AS wins
+            FROM game_results WHERE player_id = $1
+        `, [id]);
+        const favoriteRes = await pool.query(`
+            SELECT g.map_name FROM game_results r JOIN games g ON g.id = r.game_id
+            WHERE r.player_id = $1
+            GROUP BY g.map_name ORDER BY COUNT(*) DESC, MAX(g.created_at) DESC LIMIT 1
+        `, [id]);
+        const historyRes = await pool.query(`
+            SELECT r.game_id, r.placement, r.peak_land, g.map_name, g.ranked, g.ended_at,
+                   (SELECT COUNT(*) FROM game_results o WHERE o.game_id = r.game_id) AS total_players
+            FROM game_results r JOIN games g ON g.id = r.game_id
+            WHERE r.player_id = $1
+            ORDER BY g.ended_at DESC NULLS LAST LIMIT $2
+        `, [id, historyLimit]);
+
+        const games = Number(totalsRes.rows[0].games);
+        const wins = Number(totalsRes.rows[0].wins);
+        const history: MatchHistoryEntry[] = historyRes.rows.map(row => ({
+            gameId: row.game_id,
+            mapName: row.map_name,
+            ranked: row.ranked,
+            placement: row.placement,
+            totalPlayers: Number(row.total_players),
+            peakLand: row.peak_land,
+            endedAt: toTime(row.ended_at)
+        }));
+
+        return {
+            id: player.id,
+            name: player.name,
+            color: player.color || '#a855f7',
+            rating: player.rating,
+            createdAt: new Date(player.created_at).getTime(),
+            lastSeen: new Date(player.last_seen).getTime(),
+            gamesPlayed: games,
+            wins,
+            winRate: games > 0 ? wins / games : 0,
+            favoriteMap: favoriteRes.rows[0]?.map_name ?? null,
+            history
+        };
+    } catch (err: any) {
+        console.error('dbGetPlayerStats error:', err.message);
+        return null;
+    }
+}
+
+export async function dbGetGameRecord(id: string): Promise<GameRecord | null> {
+    if (!pool) return null;
+    try {
+        const gameRes = await pool.query(`SELECT * FROM games WHERE id = $1`, [id]);
+        const game = gameRes.rows[0];
+        if (!game) return null;
+
+        const resultsRes = await pool.query(`SELECT * FROM game_results WHERE game_id = $1 ORDER BY placement`, [id]);
+        return {
+            id: game.id,
+            mapName: game.map_name,
+            status: game.status,
+            ranked: game.ranked,
+            winnerId: game.winner_id,
+            createdAt: new Date(game.created_at).getTime(),
+            endedAt: toTime(game.ended_at),
+            standings: resultsRes.rows.map(toStanding)
+        };
+    } catch (err: any) {
+        console.error('dbGetGameRecord error:', err.message);
+        return null;
+    }
+}
+
 // --- MAP PERSISTENCE ---
 
 export interface MapData {
@@ -167,6 +438,29 @@ export async function dbSaveMap(map: MapData) {
     }
 }
 
+export async function dbGetMap(id: string) {
+    if (!pool) return null;
+    try {
+        const res = await pool.query(`SELECT * FROM maps WHERE id = $1`, [id]);
+        return res.rows[0] || null;
+    } catch (err: any) {
+        console.error('dbGetMap error:', err.message);
+        return null;
+    }
+}
+
+// Names only, for the host's map picker
+export async function dbListMaps(): Promise<{ id: string, name: string }[]> {
+    if (!pool) return [];
+    try {
+        const res = await pool.query(`SELECT id, name FROM maps ORDER BY name`);
+        return res.rows;
+    } catch (err: any) {
+        console.error('dbListMaps error:', err.message);
+        return [];
+    }
+}
+
 export async function dbGetRandomMap() {
     if (!pool) return null;
     try {
@@ -180,3 +474,68 @@ export async function dbGetRandomMap() {
         return null;
     }
 }
+
+// --- REPLAYS ---
+
+export async function dbSaveReplay(replay: ReplayData) {
+    if (!pool) return;
+    try {
+        await pool.query(`
+            INSERT INTO replays (id, seed, map_id, map_name, roster, rules, simulation_version, commands, total_steps, winner_id, winner_name)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+            ON CONFLICT (id) DO NOTHING
+        `, [replay.id, replay.seed, replay.mapId, replay.mapName, JSON.stringify(replay.roster), JSON.stringify(replay.rules),
+            replay.simulationVersion, JSON.stringify(replay.commands), replay.totalSteps, replay.winnerId, replay.winnerName]);
+    } catch (err: any) {
+        console.error('dbSaveReplay error:', err.message);
+    }
+}
+
+// Newest first, without the (large) command lists. Only those the given simulation version can play.
+export async function dbListReplays(simulationVersion: number, limit = 20): Promise<ReplaySummary[]> {
+    if (!pool) return [];
+    try {
+        const res = await pool.query(`
+            SELECT id, map_id, map_name, total_steps, winner_id, winner_name, created_at
+            FROM replays WHERE simulation_version = $1 ORDER BY created_at DESC LIMIT $2
+        `, [simulationVersion, limit]);
+        return res.rows.map(row => ({
+            id: row.id,
+            mapId: row.map_id,
+            mapName: row.map_name,
+            totalSteps: row.total_steps,
+            winnerId: row.winner_id,
+            winnerName: row.winner_name,
+            createdAt: new Date(row.created_at).getTime()
+        }));
+    } catch (err: any) {
+        console.error('dbListReplays error:', err.message);
+        return [];
+    }
+}
+
+export async function dbGetReplay(id: string): Promise<ReplayData | null> {
+    if (!pool) return null;
+    try {
+        const res = await pool.query(`SELECT * FROM replays WHERE id = $1`, [id]);
+        const row = res.rows[0];
+        if (!row) return null;
+        return {
+            id: row.id,
+            seed: Number(row.seed),
+            mapId: row.map_id,
+            mapName: row.map_name,
+            roster: row.roster,
+            rules: row.rules,
+            simulationVersion: row.simulation_version ?? 0,
+            totalSteps: row.total_steps,
+            winnerId: row.winner_id,
+            winnerName: row.winner_name,
+            commands: row.commands,
+            createdAt: new Date(row.created_at).getTime()
+        };
+    } catch (err: any) {
+        console.error('dbGetReplay error:', err.message);
+        return null;
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { computeRatings, DEFAULT_RATING, RatedPlacement } from './rating.ts';
+
+const veteran = (playerId: string, rating: number, placement: number): RatedPlacement =>
+    ({ playerId, rating, ratedGames: 50, placement });
+
+describe('computeRatings', () => {
+    it('needs at least two rated players', () => {
+        expect(computeRatings([]).size).toBe(0);
+        expect(computeRatings([veteran('a', DEFAULT_RATING, 1)]).size).toBe(0);
+    });
+
+    it('moves an even duel by half the K factor, and keeps the total', () => {
+        const ratings = computeRatings([veteran('a', 1200, 1), veteran('b', 1200, 2)]);
+        expect(ratings.get('a')).toBe(1216);
+        expect(ratings.get('b')).toBe(1184);
+    });
+
+    it('leaves a draw between equals unchanged', () => {
+        const ratings = computeRatings([veteran('a', 1400, 1), veteran('b', 1400, 1)]);
+        expect(ratings.get('a')).toBe(1400);
+        expect(ratings.get('b')).toBe(1400);
+    });
+
+    it('rewards an upset more than an expected win', () => {
+        const upset = computeRatings([veteran('low', 1000, 1), veteran('high', 1400, 2)]);
+        const expected = computeRatings([veteran('low', 1000, 2), veteran('high', 1400, 1)]);
+        expect(upset.get('low')! - 1000).toBe(29);
+        expect(expected.get('high')! - 1400).toBe(3);
+    });
+
+    it('moves provisional accounts twice as fast', () => {
+        const ratings = computeRatings([{ playerId: 'new', rating: 1200, ratedGames: 0, placement: 1 }, veteran('old', 1200, 2)]);
+        expect(ratings.get('new')).toBe(1232);
+        expect(ratings.get('old')).toBe(1184);
+    });
+
+    it('normalizes free-for-all swings by the number of opponents', () => {
+        const ratings = computeRatings([veteran('a', 1200, 1), veteran('b', 1200, 2), veteran('c', 1200, 3), veteran('d', 1200, 4)]);
+        expect(ratings.get('a')).toBe(1216);
+        expect(ratings.get('d')).toBe(1184);
+        const total = [...ratings.values()].reduce((sum, r) => sum + r, 0);
+        expect(total).toBe(4 * 1200);
+    });
+});
@@ -0,0 +1,38 @@
+// Multiplayer Elo: a match with N rated players counts as every pairwise duel
+// between them, decided by final placement. Bots are never rated.
+
+export const DEFAULT_RATING = 1200;
+const K_FACTOR = 32;
+const PROVISIONAL_K_FACTOR = 64; // New accounts move faster towards their real level
+const PROVISIONAL_GAMES = 10;
+
+export interface RatedPlacement {
+    playerId: string;
+    rating: number;
+    ratedGames: number;
+    placement: number; // 1 = winner
+}
+
+function expectedScore(rating: number, opponent: number): number {
+    return 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+}
+
+// New rating per player id. Needs at least two rated players, otherwise nothing changes.
+export function computeRatings(results: RatedPlacement[]): Map<string, number> {
+    const ratings = new Map<string, number>();
+    if (results.length < 2) return ratings;
+
+    results.forEach(p => {
+        let delta = 0;
+        results.forEach(o => {
+            if (o === p) return;
+            const actual = p.placement < o.placement ? 1 : p.placement > o.placement ? 0 : 0.5;
+            delta += actual - expectedScore(p.rating, o.rating);
+        });
+        const k = p.ratedGames < PROVISIONAL_GAMES ? PROVISIONAL_K_FACTOR : K_FACTOR;
+        // Normalized so a 40-player match doesn't swing ratings 39 times harder than a duel
+        ratings.set(p.playerId, Math.round(p.rating + (k * delta) / (results.length - 1)));
+    });
+
+    return ratings;
+}
@@ -2,7 +2,8 @@ import express from 'express';
 import { createServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
-import { dbSavePlayer, dbCreateGame, dbUpdateGameStatus, dbGetRandomMap, dbSaveSnapshot } from './db.ts';
+import { dbCreateGame, dbUpdateGameStatus, dbGetRandomMap, dbSaveSnapshot, dbReady, dbGetInProgressGames, dbGetLatestSnapshot, dbSaveReplay, dbListReplays, dbGetReplay, dbGetMap, dbSaveGameResults, dbListMaps, dbSaveGameRoster } from './db.ts';
+import { randomInt } from 'crypto';
 
 const app = express();
 const httpServer = createServer(app);
@@ -15,8 +16,34 @@ const io = new Server(httpServer, {
 });
 
 const PORT = 3002;
-
-import { PlayerProfile, Lobby, AIType } from '../types.ts';
+// Networking mode for new lobbies: full-state sync by default, LOCKSTEP to only ship commands
+const DEFAULT_NET_MODE: NetMode = process.env.CASTLEFRONT_NET_MODE === 'LOCKSTEP' ? 'LOCKSTEP' : 'AUTHORITATIVE';
+// How long a dropped player keeps their seat in an in-progress match
+const RECONNECT_GRACE_MS = 60000;
+// Lobby countdown: at expiry a lobby with enough lords marches, otherwise it is extended, then cancelled
+const LOBBY_COUNTDOWN_MS = 60000;
+const LOBBY_MIN_PLAYERS = 2;
+const LOBBY_EXTENSION_MS = 30000;
+const LOBBY_MAX_EXTENSIONS = 2;
+const LOBBY_STARTING_MS = 5000; // STARTING: joins are closed, then the match begins
+// Private lobby codes skip look-alike characters (0/O, 1/I)
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 6;
+// Used when no map is stored: the engine generates terrain from the match seed
+const FALLBACK_MAP = { id: 'default', name: 'Unknown Lands', tiles: [] };
+
+const CHAT_RATE_LIMIT = 5; // Messages per window and account
+const CHAT_RATE_WINDOW_MS = 10000;
+
+import { PlayerProfile, Lobby, AIType, GameCommand, NetMode, Credentials, PlayerStanding, LobbySettings, ChatChannel, ChatMessage, GameMode } from '../types.ts';
+import { BOT_DIFFICULTY_COMMITMENT, CHAT_MAX_LENGTH, DEFAULT_GAME_MODES, DEFAULT_MATCH_RULES, TEAM_NAMES } from '../constants.ts';
+import { SeededRandom } from '../game/Random.ts';
+import { SIMULATION_VERSION } from '../game/Replay.ts';
+import { MatchHost, MatchHostCallbacks } from './MatchHost.ts';
+import { buildMatchRoster, DEFAULT_BOT_COUNTS } from '../game/roster.ts';
+import { Account, authenticate, createAccount, getRating, recordRatedMatch, renameAccount, touchAccount } from './accounts.ts';
+import { QueueEntry, RankedQueue } from './RankedQueue.ts';
+import { apiRouter } from './api.ts';
 
 // --- TYPES ---
 interface ServerPlayer extends PlayerProfile {
@@ -25,14 +52,31 @@ interface ServerPlayer extends PlayerProfile {
 }
 
 interface ServerLobby extends Omit<Lobby, 'players'> {
-    hostId: string;
     players: ServerPlayer[];
+    extensions: number; // Countdown extensions so far, see updateLobbyTimers
+    forfeits: string[]; // Ranked players who left the running match, first to leave first
+}
+
+// Connection state of a logged-in account, outlives its sockets
+interface Session {
+    playerId: string;
+    socketId: string | null; // null while disconnected
+    graceTimer: ReturnType<typeof setTimeout> | null;
+    chatSentAt: number[]; // Send times within the rate window
+    muted: Set<string>; // Account ids whose chat this player doesn't receive
 }
 
+app.use('/api', apiRouter);
+
 // --- STATE ---
 const players: Record<string, ServerPlayer> = {}; // Mapped by socket.id
 const lobbies: Record<string, ServerLobby> = {};
 const lobbyMaps: Record<string, any> = {}; // Store map data for lobbies
+const matches: Record<string, MatchHost> = {}; // Authoritative simulation per in-progress lobby
+const sessions: Record<string, Session> = {}; // Mapped by account (player) id
+const spectators: Record<string, string> = {}; // socket.id -> watched lobby id
+const replaySaves: Record<string, Promise<void>> = {}; // Replays still being written, by game id
+const rankedQueue = new RankedQueue();
 
 // --- LOGIC ---
 
@@ -40,89 +84,227 @@ io.on('connection', (socket: Socket) => {
     console.log(`Client connected: ${socket.id}`);
 
     // 1. REGISTER PLAYER
-    socket.on('register', (name: string) => {
-        const pid = uuidv4();
+    // Valid credentials log into (and rename) that account, otherwise a new account is created
+    socket.on('register', async (name: string, credentials?: Credentials) => {
         const pname = name || `Commander-${socket.id.substr(0, 4)}`;
 
-        // Persist to DB
-        dbSavePlayer(pid, pname);
-
-        players[socket.id] = {
-            id: pid,
-            name: pname,
-            isAI: false,
-            aiType: 'HUMAN' as any, // Cast to AIType
-            color: ['#ef4444', '#3b82f6', '#22c5e', '#eab308', '#a855f7'][Math.floor(Math.random() * 5)], // Random persistent color
-            socketId: socket.id,
-            lobbyId: null
-        };
-        socket.emit('registered', players[socket.id]);
-        socket.emit('lobbies_update', Object.values(lobbies));
+        let account = await authenticate(credentials);
+        if (account) {
+            await renameAccount(account.id, pname);
+            account = { ...account, name: pname };
+        } else {
+            const created = await createAccount(pname);
+            account = created.account;
+            credentials = created.credentials;
+        }
+
+        attachSession(socket, account);
+        socket.emit('registered', { ...players[socket.id], createdAt: account.createdAt, rating: account.rating, credentials });
+        socket.emit('lobbies_update', listedLobbies());
     });
 
-    // 2. CREATE LOBBY
-    socket.on('create_lobby', async (mapName: string) => {
-        const player = players[socket.id];
-        if (!player) return;
+    // 1A. LOGIN (Stored credentials, no name needed)
+    socket.on('login', async (credentials: Credentials) => {
+        const account = await authenticate(credentials);
+        if (!account) {
+            socket.emit('login_failed');
+            return;
+        }
+
+        attachSession(socket, account);
+        socket.emit('registered', { ...players[socket.id], createdAt: account.createdAt, rating: account.rating, credentials });
+        socket.emit('muted_players', [...sessions[account.id].muted]);
+        socket.emit('lobbies_update', listedLobbies());
+    });
 
-        const lobbyId = uuidv4().substr(0, 6).toUpperCase();
+    // 1B. REJOIN (Back into an in-progress match after a dropped connection or a page reload)
+    socket.on('rejoin', async (credentials: Credentials) => {
+        const account = await authenticate(credentials);
+        // By engine seat rather than lobby.players: lobbies resumed after a restart start out empty
+        const lobby = account && Object.values(lobbies).find(l =>
+            l.status === 'IN_PROGRESS' && !!matches[l.id]?.engine.getPlayer(account.id));
+        const match = lobby ? matches[lobby.id] : undefined;
 
-        // Fetch Random Map
-        let map = await dbGetRandomMap();
-        if (!map) {
-            map = { id: 'default', name: 'Unknown Lands', tiles: [] };
+        if (!account || !lobby || !match) {
+            socket.emit('rejoin_failed');
+            return;
+        }
+
+        const session = sessions[account.id];
+        if (session?.graceTimer) {
+            clearTimeout(session.graceTimer);
+            session.graceTimer = null;
         }
-        const mName = map.name;
 
-        // Persist Game
-        dbCreateGame(lobbyId, mName, 'WAITING');
+        const player = attachSession(socket, account);
+        player.lobbyId = lobby.id;
+        lobby.players = [...lobby.players.filter(p => p.id !== player.id), player];
+        lobby.forfeits = lobby.forfeits.filter(id => id !== player.id);
+        socket.join(lobby.id);
+
+        socket.emit('registered', { ...player, createdAt: account.createdAt, rating: account.rating, credentials });
+        socket.emit('rejoined', { lobby, save: match.getSave() });
+        io.to(lobby.id).emit('lobby_state', lobby);
+        console.log(`${player.name} rejoined lobby ${lobby.id}`);
+    });
+
+    // 2. CREATE LOBBY (Private: hidden from the list, joined with its invite code)
+    socket.on('create_lobby', async (settings?: Partial<LobbySettings>) => {
+        const player = players[socket.id];
+        if (!player || player.lobbyId) return;
 
-        const newLobby: ServerLobby = {
-            id: lobbyId,
+        leaveRankedQueue(socket);
+        stopSpectating(socket);
+
+        const map = await loadLobbyMap(settings?.mapId ?? null);
+        if (players[socket.id] !== player || player.lobbyId) return; // Left or joined elsewhere meanwhile
+
+        const newLobby = openLobby(map, {
             hostId: player.id,
-            mapId: map.id,
-            mapName: mName,
             players: [player],
             maxPlayers: 8,
-            status: 'WAITING',
-            createdAt: Date.now(),
-            expiresAt: Date.now() + 60000
-        };
+            inviteCode: generateInviteCode(),
+            expiresAt: Date.now() // No countdown, the host starts the match
+        });
+        player.teamId = null;
+        if (settings) applyLobbySettings(newLobby, settings);
+        player.lobbyId = newLobby.id;
+
+        socket.join(newLobby.id); // Socket.io room
+        socket.emit('lobby_joined', newLobby);
+        io.to(newLobby.id).emit('lobby_state', newLobby);
+    });
 
-        lobbies[lobbyId] = newLobby;
-        lobbyMaps[lobbyId] = map;
-        player.lobbyId = lobbyId;
+    // 2B. LOBBY SETTINGS (Host only, before the match starts)
+    socket.on('update_lobby_settings', async (settings: Partial<LobbySettings>) => {
+        const player = players[socket.id];
+        const lobby = player?.lobbyId ? lobbies[player.lobbyId] : undefined;
+        if (!player || !lobby || !settings) return;
+        if (lobby.hostId !== player.id || lobby.status !== 'WAITING' || lobby.ranked) return;
+
+        if (settings.mapId !== undefined && settings.mapId !== lobby.mapId) {
+            const map = await loadLobbyMap(settings.mapId);
+            if (lobbies[lobby.id] !== lobby || lobby.status !== 'WAITING') return;
+            lobby.mapId = map.id;
+            lobby.mapName = map.name;
+            lobbyMaps[lobby.id] = map;
+        }
+        applyLobbySettings(lobby, settings);
 
-        socket.join(lobbyId); // Socket.io room
-        io.emit('lobbies_update', Object.values(lobbies)); // Broadcast to all
-        io.to(lobbyId).emit('lobby_state', newLobby);
+        io.to(lobby.id).emit('lobby_state', lobby);
+        if (!lobby.inviteCode) io.emit('lobbies_update', listedLobbies());
+    });
+
+    // 2C. PICK A SIDE (Team games only)
+    socket.on('choose_team', (teamId: number) => {
+        const player = players[socket.id];
+        const lobby = player?.lobbyId ? lobbies[player.lobbyId] : undefined;
+        if (!player || !lobby || lobby.status !== 'WAITING') return;
+        if (!Number.isInteger(teamId) || teamId < 1 || teamId > lobby.rules.teams) return;
+
+        player.teamId = teamId;
+        io.to(lobby.id).emit('lobby_state', lobby);
+    });
+
+    // 2D. CHAT (Lobby before the match, everyone or team/allies during it)
+    socket.on('chat_send', (payload: { channel: ChatChannel, text: string }) => {
+        const player = players[socket.id];
+        const lobby = player?.lobbyId ? lobbies[player.lobbyId] : undefined;
+        const session = player ? sessions[player.id] : undefined;
+        if (!player || !lobby || !session || !payload) return;
+
+        const text = String(payload.text ?? '').trim().slice(0, CHAT_MAX_LENGTH);
+        if (!text) return;
+        const inMatch = lobby.status === 'IN_PROGRESS';
+        const channel = payload.channel;
+        if (channel === 'LOBBY' ? inMatch : channel === 'ALL' ? !inMatch : channel !== 'TEAM') return;
+
+        const now = Date.now();
+        session.chatSentAt = session.chatSentAt.filter(t => now - t < CHAT_RATE_WINDOW_MS);
+        if (session.chatSentAt.length >= CHAT_RATE_LIMIT) {
+            socket.emit('chat_rejected', { reason: 'RATE_LIMIT', retryInMs: CHAT_RATE_WINDOW_MS - (now - session.chatSentAt[0]) });
+            return;
+        }
+        session.chatSentAt.push(now);
+
+        const message: ChatMessage = { id: uuidv4(), channel, fromId: player.id, fromName: player.name, color: player.color, text, sentAt: now };
+        chatRecipients(lobby, player, channel).forEach(socketId => io.to(socketId).emit('chat_message', message));
+    });
+
+    socket.on('mute_player', (payload: { playerId: string, muted: boolean }) => {
+        const player = players[socket.id];
+        const session = player ? sessions[player.id] : undefined;
+        if (!session || !payload || typeof payload.playerId !== 'string' || payload.playerId === player.id) return;
+
+        if (payload.muted) session.muted.add(payload.playerId);
+        else session.muted.delete(payload.playerId);
+        socket.emit('muted_players', [...session.muted]);
+    });
+
+    socket.on('list_maps', async () => {
+        socket.emit('maps_list', await dbListMaps());
     });
 
     // 3. JOIN LOBBY
     socket.on('join_lobby', (lobbyId: string) => {
-        const player = players[socket.id];
         const lobby = lobbies[lobbyId];
+        if (!lobby || lobby.inviteCode) return; // Private lobbies only by code
+        joinLobby(socket, lobby);
+    });
 
-        if (!player || player.lobbyId || !lobby) return;
-        if (lobby.status !== 'WAITING') return;
-        if (lobby.players.length >= lobby.maxPlayers) return;
-
-        // If this is a server-generated lobby, assign first joiner as host
-        if (lobby.hostId === 'SERVER') {
-            lobby.hostId = player.id;
+    socket.on('join_lobby_code', (code: string) => {
+        const normalized = String(code || '').trim().toUpperCase();
+        const lobby = Object.values(lobbies).find(l => l.inviteCode === normalized);
+        if (!lobby || !joinLobby(socket, lobby)) {
+            socket.emit('join_failed', { code: normalized });
         }
+    });
+
+    // 3A. RANKED QUEUE (Grouped with players of similar rating, see RankedQueue)
+    socket.on('queue_ranked', async () => {
+        const player = players[socket.id];
+        if (!player || player.lobbyId || rankedQueue.has(player.id)) return;
+
+        const rating = await getRating(player.id);
+        if (players[socket.id] !== player || player.lobbyId) return; // Left while the rating was loading
+
+        rankedQueue.add({ playerId: player.id, rating, queuedAt: Date.now() });
+        socket.emit('ranked_queue', { queued: true, rating });
+    });
 
-        lobby.players.push(player);
-        player.lobbyId = lobbyId;
+    socket.on('leave_ranked_queue', () => {
+        leaveRankedQueue(socket);
+    });
+
+    // 3B. SPECTATE LOBBY (Watch an in-progress match: same stream as the players, but no commands)
+    socket.on('spectate_lobby', (lobbyId: string) => {
+        const player = players[socket.id];
+        const lobby = lobbies[lobbyId];
+        const match = matches[lobbyId];
 
+        if (!player || player.lobbyId || !lobby || !match) return;
+        if (lobby.status !== 'IN_PROGRESS') return;
+
+        stopSpectating(socket);
+        spectators[socket.id] = lobbyId;
+        lobby.spectatorCount++;
         socket.join(lobbyId);
-        io.emit('lobbies_update', Object.values(lobbies));
-        io.to(lobbyId).emit('lobby_state', lobby);
+
+        socket.emit('spectate_start', { lobby, save: match.getSave() });
+        io.emit('lobbies_update', listedLobbies());
+    });
+
+    socket.on('stop_spectating', () => {
+        stopSpectating(socket);
     });
 
     // 4. LEAVE LOBBY
     socket.on('leave_lobby', () => {
-        handlePlayerDisconnect(socket);
+        leaveLobby(socket);
+    });
+
+    socket.on('leave_game', () => {
+        leaveLobby(socket);
     });
 
     // 5. START GAME
@@ -145,104 +327,611 @@ io.on('connection', (socket: Socket) => {
         }
 
         // console.log(`Start Game Request - Player: ${player.id}, Host: ${lobby.hostId}, Lobby Status: ${lobby.status}`);
+        // The host may also cut the STARTING phase short
+        if (lobby.status !== 'WAITING' && lobby.status !== 'STARTING') return;
 
         if (lobby.hostId === player.id) {
-            lobby.status = 'IN_PROGRESS';
-
-            // Persist Update
-            dbUpdateGameStatus(lobby.id, 'IN_PROGRESS');
-
-            io.emit('lobbies_update', Object.values(lobbies));
-            io.to(lobby.id).emit('game_start', {
-                lobby,
-                mapData: lobbyMaps[lobby.id]
-            });
-            console.log(`Game started for lobby ${lobby.id}`);
+            startMatch(lobby);
         } else {
             console.log(`Player ${player.id} is not host of lobby ${lobby.id} (Host: ${lobby.hostId})`);
         }
     });
 
-    // 6. SAVE SNAPSHOT
-    socket.on('save_snapshot', (data: { lobbyId: string, tick: number, state: any }) => {
-        if (data.lobbyId && data.state) {
-            import('./db.ts').then(db => {
-                db.dbSaveSnapshot(data.lobbyId, data.tick, data.state);
-            });
+    // 5B. GAME COMMAND (Player intents, applied on the next server tick)
+    socket.on('game_command', (cmd: GameCommand) => {
+        const player = players[socket.id];
+        if (!player || !player.lobbyId || !cmd) return;
+
+        const match = matches[player.lobbyId];
+        if (!match) return;
+
+        // Never trust the client-provided identity
+        match.queueCommand({ ...cmd, playerId: player.id });
+    });
+
+    // 5C. LOCKSTEP CHECKSUM (Desync detection, compared against the server's own simulation)
+    socket.on('lockstep_checksum', (data: { step: number, checksum: number }) => {
+        const player = players[socket.id];
+        const lobbyId = watchedLobbyId(socket);
+        if (!player || !lobbyId || !data) return;
+
+        const match = matches[lobbyId];
+        if (!match) return;
+
+        if (match.verifyChecksum(data.step, data.checksum) === false) {
+            console.warn(`Desync in lobby ${lobbyId}: ${player.name} at step ${data.step}`);
+            socket.emit('desync', { step: data.step });
         }
     });
 
+    // 5D. REQUEST STATE (Full save of the running match: reloaded browser or lockstep resync)
+    socket.on('request_state', () => {
+        const lobbyId = watchedLobbyId(socket);
+        if (!players[socket.id] || !lobbyId) return;
+
+        const match = matches[lobbyId];
+        if (!match) return;
+
+        socket.emit('match_state', match.getSave());
+    });
+
+    // 5E. REPLAYS (Recorded matches, re-simulated by the client)
+    socket.on('list_replays', async () => {
+        socket.emit('replays_list', await dbListReplays(SIMULATION_VERSION));
+    });
+
+    socket.on('load_replay', async (replayId: string) => {
+        await replaySaves[replayId]; // The results screen asks as soon as the match ends
+        const replay = await dbGetReplay(replayId);
+        if (!replay) {
+            console.log(`Replay ${replayId} not found`);
+            return;
+        }
+        if (replay.simulationVersion !== SIMULATION_VERSION) {
+            console.log(`Replay ${replayId} was recorded by simulation version ${replay.simulationVersion}, can't play it back`);
+            return;
+        }
+        // 'default' is the procedural fallback map, regenerated from the seed
+        const mapData = replay.mapId !== 'default' ? await dbGetMap(replay.mapId) : undefined;
+        socket.emit('replay_data', { replay, mapData });
+    });
+
     // DISCONNECT
     socket.on('disconnect', () => {
         console.log(`Client disconnected: ${socket.id}`);
+        const player = players[socket.id];
+        const lobby = player?.lobbyId ? lobbies[player.lobbyId] : undefined;
+        const session = Object.values(sessions).find(s => s.socketId === socket.id);
+
+        if (player && lobby && lobby.status === 'IN_PROGRESS' && session) {
+            // Keep the seat (and the engine Player) for a while, see 'rejoin'
+            session.socketId = null;
+            touchAccount(session.playerId);
+            session.graceTimer = setTimeout(() => {
+                session.graceTimer = null;
+                removeFromLobby(player, lobby);
+            }, RECONNECT_GRACE_MS);
+            delete players[socket.id];
+            console.log(`${player.name} dropped from lobby ${lobby.id}, holding seat for ${RECONNECT_GRACE_MS / 1000}s`);
+            return;
+        }
+
         handlePlayerDisconnect(socket);
     });
 });
 
 // --- HELPER FUNC ---
-function handlePlayerDisconnect(socket: Socket) {
+// Sockets that receive a chat message: connected players of the channel (and spectators for ALL)
+// who haven't muted the sender. The sender always gets their own message back.
+function chatRecipients(lobby: ServerLobby, sender: ServerPlayer, channel: ChatChannel): string[] {
+    const engine = matches[lobby.id]?.engine;
+    const sameSide = (p: ServerPlayer) => engine
+        ? engine.areAllies(sender.id, p.id)
+        : sender.teamId != null && p.teamId === sender.teamId;
+
+    const socketIds = lobby.players
+        .filter(p => p.id === sender.id || channel !== 'TEAM' || sameSide(p))
+        .filter(p => p.id === sender.id || !sessions[p.id]?.muted.has(sender.id))
+        .map(p => sessions[p.id]?.socketId)
+        .filter((id): id is string => !!id);
+
+    if (channel === 'ALL') {
+        Object.entries(spectators).forEach(([socketId, lobbyId]) => {
+            if (lobbyId === lobby.id) socketIds.push(socketId);
+        });
+    }
+    return socketIds;
+}
+
+// Lobbies shown to everyone: private lobbies never appear, not even once their match runs
+function listedLobbies(): ServerLobby[] {
+    return Object.values(lobbies).filter(l => !l.inviteCode && l.status !== 'FINISHED');
+}
+
+// Stored map by id, a random stored map for null, the procedural fallback if there is none
+async function loadLobbyMap(mapId: string | null): Promise<any> {
+    const map = mapId === null ? await dbGetRandomMap() : mapId !== FALLBACK_MAP.id ? await dbGetMap(mapId) : null;
+    return map || FALLBACK_MAP;
+}
+
+// Registers (and persists) a new WAITING lobby. Defaults are those of the public server lobbies.
+function openLobby(map: any, fields: Partial<ServerLobby>): ServerLobby {
+    const lobby: ServerLobby = {
+        id: uuidv4().substr(0, 6).toUpperCase(),
+        hostId: 'SERVER',
+        mapId: map.id,
+        mapName: map.name,
+        players: [],
+        maxPlayers: 40,
+        status: 'WAITING',
+        netMode: DEFAULT_NET_MODE,
+        spectatorCount: 0,
+        ranked: false,
+        inviteCode: null,
+        bots: { ...DEFAULT_BOT_COUNTS },
+        rules: { ...DEFAULT_MATCH_RULES },
+        roster: null,
+        createdAt: Date.now(),
+        expiresAt: Date.now() + LOBBY_COUNTDOWN_MS,
+        extensions: 0,
+        forfeits: [],
+        ...fields
+    };
+    lobbies[lobby.id] = lobby;
+    lobbyMaps[lobby.id] = map;
+    dbCreateGame(lobby.id, lobby.mapName, 'WAITING', lobby.ranked, lobby.inviteCode);
+    return lobby;
+}
+
+function generateInviteCode(): string {
+    let code: string;
+    do {
+        code = Array.from({ length: INVITE_CODE_LENGTH }, () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)]).join('');
+    } while (Object.values(lobbies).some(l => l.inviteCode === code));
+    return code;
+}
+
+// Clamps and copies host settings onto a lobby (the map is resolved by the caller)
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+    const n = Math.round(Number(value));
+    return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+}
+
+function applyLobbySettings(lobby: ServerLobby, settings: Partial<LobbySettings>) {
+    if (settings.maxPlayers !== undefined) {
+        lobby.maxPlayers = clampInt(settings.maxPlayers, Math.max(2, lobby.players.length), 40, lobby.maxPlayers);
+    }
+    if (settings.camps !== undefined) lobby.bots.camps = clampInt(settings.camps, 0, 60, lobby.bots.camps);
+    if (settings.kingdoms !== undefined) lobby.bots.kingdoms = clampInt(settings.kingdoms, 0, 16, lobby.bots.kingdoms);
+    // Own keys only, 'toString' or '__proto__' must not pass as a mode or difficulty
+    if (settings.mode && typeof settings.mode.type === 'string' && Object.hasOwn(DEFAULT_GAME_MODES, settings.mode.type)) {
+        lobby.rules.mode = sanitizeGameMode(settings.mode);
+    }
+    if (typeof settings.botDifficulty === 'string' && Object.hasOwn(BOT_DIFFICULTY_COMMITMENT, settings.botDifficulty)) {
+        lobby.rules.botDifficulty = settings.botDifficulty;
+    }
+    if (settings.teams !== undefined) {
+        const teams = clampInt(settings.teams, 0, TEAM_NAMES.length, lobby.rules.teams);
+        lobby.rules.teams = teams === 1 ? 0 : teams; // A single side is just free-for-all
+        balanceTeams(lobby);
+    }
+}
+
+// Only the known fields of a mode, with parameters in sane bounds (a missing one takes the mode's default)
+function sanitizeGameMode(mode: GameMode): GameMode {
+    switch (mode.type) {
+        case 'CONQUEST':
+            return { type: 'CONQUEST', winPercentage: clampInt(mode.winPercentage, 30, 95, DEFAULT_GAME_MODES.CONQUEST.winPercentage) };
+        case 'TIMED':
+            return { type: 'TIMED', minutes: clampInt(mode.minutes, 5, 90, DEFAULT_GAME_MODES.TIMED.minutes) };
+        case 'KING_OF_THE_HILL':
+            return {
+                type: 'KING_OF_THE_HILL',
+                hillRadius: clampInt(mode.hillRadius, 4, 30, DEFAULT_GAME_MODES.KING_OF_THE_HILL.hillRadius),
+                holdSeconds: clampInt(mode.holdSeconds, 30, 600, DEFAULT_GAME_MODES.KING_OF_THE_HILL.holdSeconds)
+            };
+        default:
+            return { type: 'REGICIDE' };
+    }
+}
+
+// Puts every player without a valid side on the smallest one (lowest teamId on ties).
+// Free-for-all lobbies clear all sides.
+function balanceTeams(lobby: ServerLobby) {
+    const teams = lobby.rules.teams;
+    lobby.players.forEach(p => {
+        if (teams === 0 || !p.teamId || p.teamId > teams) p.teamId = null;
+    });
+    if (teams === 0) return;
+
+    lobby.players.filter(p => p.teamId === null).forEach(p => {
+        const sizes = Array.from({ length: teams }, (_, i) => lobby.players.filter(o => o.teamId === i + 1).length);
+        p.teamId = sizes.indexOf(Math.min(...sizes)) + 1;
+    });
+}
+
+// Returns false if the lobby can't take this player
+function joinLobby(socket: Socket, lobby: ServerLobby): boolean {
+    const player = players[socket.id];
+    if (!player || player.lobbyId) return false;
+    if (lobby.status !== 'WAITING' || lobby.ranked) return false;
+    if (lobby.players.length >= lobby.maxPlayers) return false;
+
+    // If this is a server-generated lobby, assign first joiner as host
+    if (lobby.hostId === 'SERVER') {
+        lobby.hostId = player.id;
+    }
+
+    stopSpectating(socket);
+    leaveRankedQueue(socket);
+    lobby.players.push(player);
+    player.lobbyId = lobby.id;
+    player.teamId = null;
+    balanceTeams(lobby);
+
+    socket.join(lobby.id);
+    socket.emit('lobby_joined', lobby);
+    if (!lobby.inviteCode) io.emit('lobbies_update', listedLobbies());
+    io.to(lobby.id).emit('lobby_state', lobby);
+    return true;
+}
+
+function attachSession(socket: Socket, account: Account): ServerPlayer {
+    const session = sessions[account.id] ?? (sessions[account.id] = { playerId: account.id, socketId: null, graceTimer: null, chatSentAt: [], muted: new Set() });
+    session.socketId = socket.id;
+    players[socket.id] = {
+        id: account.id,
+        name: account.name,
+        isAI: false,
+        aiType: 'HUMAN' as any, // Cast to AIType
+        color: account.color,
+        socketId: socket.id,
+        lobbyId: null
+    };
+    return players[socket.id];
+}
+
+function leaveLobby(socket: Socket) {
     const player = players[socket.id];
     if (player && player.lobbyId) {
         const lobby = lobbies[player.lobbyId];
-        if (lobby) {
-            lobby.players = lobby.players.filter(p => p.id !== player.id);
-            socket.leave(player.lobbyId);
-
-            // If lobby empty, maybe close it? Or Keep for auto-regen logic?
-            // If empty and NOT static server lobby, delete.
-            // But for now, let's just delete empty lobbies to keep list clean,
-            // and let auto-regen create new ones.
+        socket.leave(player.lobbyId);
+        player.lobbyId = null;
+        if (lobby) removeFromLobby(player, lobby);
+    }
+}
+
+function stopSpectating(socket: Socket) {
+    const lobbyId = spectators[socket.id];
+    if (!lobbyId) return;
+
+    delete spectators[socket.id];
+    socket.leave(lobbyId);
+    const lobby = lobbies[lobbyId];
+    if (lobby) {
+        lobby.spectatorCount = Math.max(0, lobby.spectatorCount - 1);
+        io.emit('lobbies_update', listedLobbies());
+    }
+}
+
+// Forgets every spectator of a lobby that is going away
+function releaseSpectators(lobbyId: string) {
+    Object.entries(spectators).forEach(([socketId, watched]) => {
+        if (watched !== lobbyId) return;
+        delete spectators[socketId];
+        io.sockets.sockets.get(socketId)?.leave(lobbyId);
+    });
+}
+
+// The lobby whose match this socket receives, as a player or a spectator
+function watchedLobbyId(socket: Socket): string | null {
+    return players[socket.id]?.lobbyId || spectators[socket.id] || null;
+}
+
+function leaveRankedQueue(socket: Socket) {
+    const player = players[socket.id];
+    if (!player || !rankedQueue.has(player.id)) return;
+    rankedQueue.remove(player.id);
+    socket.emit('ranked_queue', { queued: false });
+}
+
+function handlePlayerDisconnect(socket: Socket) {
+    stopSpectating(socket);
+    leaveRankedQueue(socket);
+    leaveLobby(socket);
+    const session = Object.values(sessions).find(s => s.socketId === socket.id);
+    if (session) {
+        session.socketId = null;
+        touchAccount(session.playerId);
+    }
+    delete players[socket.id];
+}
+
+function removeFromLobby(player: ServerPlayer, lobby: ServerLobby) {
+    lobby.players = lobby.players.filter(p => p.id !== player.id);
+    if (lobby.ranked && matches[lobby.id]?.isRunning) lobby.forfeits.push(player.id);
+
+    // If lobby empty, maybe close it? Or Keep for auto-regen logic?
+    // If empty and NOT static server lobby, delete.
+    // But for now, let's just delete empty lobbies to keep list clean,
+    // and let auto-regen create new ones.
+    if (lobby.players.length === 0) {
+        if (matches[lobby.id]?.isRunning) {
+            if (lobby.forfeits.length > 0) rateForfeits(lobby);
+            // Only spectators are left in the room, their match is about to stop
+            io.to(lobby.id).emit('lobby_cancelled', { lobbyId: lobby.id });
+        }
+        stopMatch(lobby);
+        releaseSpectators(lobby.id);
+        delete lobbies[lobby.id];
+    } else {
+        if (lobby.hostId === player.id) {
+            lobby.hostId = lobby.players[0].id; // Assign new host
+        }
+        io.to(lobby.id).emit('lobby_state', lobby);
+    }
+    io.emit('lobbies_update', listedLobbies());
+}
+
+function startMatch(lobby: ServerLobby) {
+    lobby.status = 'IN_PROGRESS';
+
+    // Persist Update
+    dbUpdateGameStatus(lobby.id, 'IN_PROGRESS');
+
+    const seed = SeededRandom.randomSeed();
+    const humans = lobby.players.map(({ socketId, lobbyId, ...profile }) => ({ ...profile, teamId: lobby.rules.teams > 0 ? profile.teamId ?? null : null }));
+    const roster = buildMatchRoster(humans, lobby.maxPlayers, lobby.bots, seed);
+    lobby.roster = roster;
+    dbSaveGameRoster(lobby.id, roster);
+    const match = new MatchHost(lobby.id, roster, lobbyMaps[lobby.id], lobby.netMode, matchCallbacks(lobby), seed, lobby.rules);
+    matches[lobby.id] = match;
+
+    io.emit('lobbies_update', listedLobbies());
+    io.to(lobby.id).emit('game_start', {
+        lobby,
+        roster,
+        seed: match.seed,
+        rules: lobby.rules,
+        mapData: { id: lobbyMaps[lobby.id]?.id, name: lobby.mapName, ...match.getMapData() }
+    });
+    match.start();
+    console.log(`Game started for lobby ${lobby.id} (seed ${match.seed})`);
+}
+
+// Moves WAITING lobbies along at expiry: STARTING when enough lords joined, else extend, then cancel
+function updateLobbyTimers() {
+    const now = Date.now();
+    Object.values(lobbies).forEach(lobby => {
+        if (lobby.expiresAt > now) return;
+
+        if (lobby.status === 'STARTING') {
+            if (lobby.players.length >= LOBBY_MIN_PLAYERS) {
+                startMatch(lobby);
+                return;
+            }
+            // Lords left during the countdown: waiting again, extended or cancelled below
+            lobby.status = 'WAITING';
+            dbUpdateGameStatus(lobby.id, 'WAITING');
+        }
+        if (lobby.status !== 'WAITING' || lobby.inviteCode) return; // Private lobbies wait for their host
+
+        if (lobby.players.length >= LOBBY_MIN_PLAYERS) {
+            lobby.status = 'STARTING';
+            lobby.expiresAt = now + LOBBY_STARTING_MS;
+            dbUpdateGameStatus(lobby.id, 'STARTING');
+        } else if (lobby.extensions < LOBBY_MAX_EXTENSIONS) {
+            lobby.extensions++;
+            lobby.expiresAt = now + LOBBY_EXTENSION_MS;
+        } else {
+            cancelLobby(lobby);
+            return;
+        }
+
+        io.to(lobby.id).emit('lobby_state', lobby);
+        io.emit('lobbies_update', listedLobbies());
+    });
+}
+
+// Sends everyone back to the lobby list, the server loop opens a fresh lobby if needed
+function cancelLobby(lobby: ServerLobby) {
+    io.to(lobby.id).emit('lobby_cancelled', { lobbyId: lobby.id });
+    lobby.players.forEach(p => {
+        p.lobbyId = null;
+        io.sockets.sockets.get(p.socketId)?.leave(lobby.id);
+    });
+    releaseSpectators(lobby.id);
+
+    delete lobbies[lobby.id];
+    delete lobbyMaps[lobby.id];
+    dbUpdateGameStatus(lobby.id, 'CANCELLED');
+    io.emit('lobbies_update', listedLobbies());
+    console.log(`Lobby ${lobby.id} cancelled: not enough players`);
+}
+
+function matchCallbacks(lobby: ServerLobby): MatchHostCallbacks {
+    return {
+        onState: (sync) => {
+            io.to(lobby.id).emit('game_state', sync);
+        },
+        onBatch: (batch) => {
+            io.to(lobby.id).emit('lockstep_tick', batch);
+        },
+        onGameOver: (log) => {
+            lobby.status = 'FINISHED';
+            io.to(lobby.id).emit('game_over', log);
+            // Bots have no players row to reference
+            const winner = log?.standings.find(s => s.placement === 1);
+            dbUpdateGameStatus(lobby.id, 'FINISHED', winner && !winner.isAI ? winner.playerId : null);
+            if (log) dbSaveGameResults(lobby.id, log.standings);
+            if (log && lobby.ranked) updateRatings(lobby, log.standings).catch(err => console.error('updateRatings error:', err.message));
+            console.log(`Game over for lobby ${lobby.id}. Winner: ${log?.winnerName}`);
+
+            saveReplay(lobby);
+            releaseSpectators(lobby.id); // They got game_over and stay on the results
+
+            // Resumed matches nobody came back to
             if (lobby.players.length === 0) {
+                delete matches[lobby.id];
                 delete lobbies[lobby.id];
-            } else {
-                if (lobby.hostId === player.id) {
-                    lobby.hostId = lobby.players[0].id; // Assign new host
-                }
-                io.to(lobby.id).emit('lobby_state', lobby);
+                delete lobbyMaps[lobby.id];
             }
-            io.emit('lobbies_update', Object.values(lobbies));
+            io.emit('lobbies_update', listedLobbies());
+        },
+        onSnapshot: (step, save) => {
+            dbSaveSnapshot(lobby.id, step, save);
         }
+    };
+}
+
+async function updateRatings(lobby: ServerLobby, standings: PlayerStanding[]) {
+    await recordRatedMatch(standings);
+    for (const p of lobby.players) {
+        io.to(p.socketId).emit('rating_update', { rating: await getRating(p.id) });
     }
-    delete players[socket.id];
 }
 
-// --- SERVER LOOP ---
-setInterval(async () => {
-    // Ensure at least one WAITING lobby exists
-    const waitingLobbies = Object.values(lobbies).filter(l => l.status === 'WAITING');
-    if (waitingLobbies.length === 0) {
-        const lobbyId = uuidv4().substr(0, 6).toUpperCase();
+// Nobody is left to finish the ranked match: every leaver loses, the first to leave ranks last
+function rateForfeits(lobby: ServerLobby) {
+    const standings = matches[lobby.id].engine.getStandings();
+    const forfeited = standings.map(s => {
+        const order = lobby.forfeits.indexOf(s.playerId);
+        return order === -1 ? s : { ...s, placement: standings.length + lobby.forfeits.length - order };
+    });
+    updateRatings(lobby, forfeited).catch(err => console.error('updateRatings error:', err.message));
+}
 
-        // Fetch Random Map
-        let map = await dbGetRandomMap();
-        if (!map) {
-            // Fallback if DB empty
-            map = { id: 'default', name: 'Unknown Lands', tiles: [] };
-        }
+// A ranked group gets its own closed lobby and starts right away
+async function startRankedMatch(group: QueueEntry[]) {
+    const map = await loadLobbyMap(null);
+    // Resolved after the map load, players may have disconnected or joined a lobby meanwhile
+    const members = group
+        .map(e => Object.values(players).find(p => p.id === e.playerId))
+        .filter((p): p is ServerPlayer => !!p && !p.lobbyId);
+    if (members.length < 2) {
+        // Someone vanished in between: put the others back at the front of the queue
+        members.forEach(p => {
+            const entry = group.find(e => e.playerId === p.id)!;
+            rankedQueue.add(entry);
+        });
+        return;
+    }
 
-        const mName = map.name;
+    const lobby = openLobby(map, {
+        players: members,
+        maxPlayers: 8,
+        ranked: true,
+        expiresAt: Date.now()
+    });
+    const lobbyId = lobby.id;
+
+    members.forEach(p => {
+        p.lobbyId = lobbyId;
+        rankedQueue.remove(p.id); // In case they queued again during the map load
+        const socket = io.sockets.sockets.get(p.socketId);
+        if (!socket) return;
+        stopSpectating(socket);
+        socket.join(lobbyId);
+        socket.emit('ranked_queue', { queued: false });
+        socket.emit('ranked_match_found', lobby);
+    });
+    console.log(`Ranked lobby ${lobbyId}: ${members.map(p => p.name).join(', ')}`);
+    startMatch(lobby);
+}
 
-        dbCreateGame(lobbyId, mName, 'WAITING');
+// Restarts every match that was IN_PROGRESS when the server went down, from its latest snapshot
+async function resumeMatches() {
+    await dbReady;
+    const games = await dbGetInProgressGames();
 
-        const newLobby: ServerLobby = {
-            id: lobbyId,
+    for (const game of games) {
+        const save = await dbGetLatestSnapshot(game.id);
+        if (!save) {
+            dbUpdateGameStatus(game.id, 'ABANDONED');
+            continue;
+        }
+
+        const lobby: ServerLobby = {
+            id: game.id,
             hostId: 'SERVER',
-            mapId: map.id,
-            mapName: mName,
+            mapId: 'default', // The games table only records the map name
+            mapName: game.map_name,
             players: [],
             maxPlayers: 40,
-            status: 'WAITING',
-            createdAt: Date.now(),
-            expiresAt: Date.now() + 60000 // 60s countdown
+            status: 'IN_PROGRESS',
+            netMode: DEFAULT_NET_MODE,
+            spectatorCount: 0,
+            ranked: !!game.ranked,
+            inviteCode: game.invite_code ?? null,
+            bots: { ...DEFAULT_BOT_COUNTS }, // Only used to build the roster, which is in the save
+            rules: { ...DEFAULT_MATCH_RULES },
+            roster: null,
+            createdAt: new Date(game.created_at).getTime(),
+            expiresAt: Date.now(),
+            extensions: 0,
+            forfeits: []
         };
-        lobbies[lobbyId] = newLobby;
-        lobbyMaps[lobbyId] = map; // Store data
 
-        io.emit('lobbies_update', Object.values(lobbies));
-        console.log(`Auto-created lobby: ${lobbyId} with map: ${mName}`);
+        let match: MatchHost;
+        try {
+            match = MatchHost.fromSave(lobby.id, save, lobby.netMode, matchCallbacks(lobby));
+        } catch (err: any) {
+            console.error(`Could not resume game ${game.id}:`, err.message);
+            dbUpdateGameStatus(game.id, 'ABANDONED');
+            continue;
+        }
+
+        lobby.rules = match.engine.rules;
+        lobby.roster = match.roster;
+        lobbies[lobby.id] = lobby;
+        lobbyMaps[lobby.id] = { id: lobby.mapId, name: lobby.mapName, ...match.getMapData() };
+        matches[lobby.id] = match;
+        match.start();
+        console.log(`Resumed game ${game.id} at step ${match.engine.stepCount}`);
+    }
+
+    if (games.length > 0) io.emit('lobbies_update', listedLobbies());
+}
+
+// Unfinished matches keep their replay too, it just has no winner
+function stopMatch(lobby: ServerLobby) {
+    const match = matches[lobby.id];
+    if (match) {
+        if (match.isRunning) saveReplay(lobby);
+        match.stop();
+        delete matches[lobby.id];
+    }
+}
+
+function saveReplay(lobby: ServerLobby) {
+    const replay = matches[lobby.id]?.buildReplay({ id: lobby.id, mapId: lobby.mapId, mapName: lobby.mapName });
+    if (!replay) return;
+    replaySaves[lobby.id] = dbSaveReplay(replay).finally(() => delete replaySaves[lobby.id]);
+}
+
+// --- SERVER LOOP ---
+setInterval(async () => {
+    // Ensure at least one WAITING lobby exists
+    const waitingLobbies = listedLobbies().filter(l => l.status === 'WAITING' && !l.ranked);
+    if (waitingLobbies.length === 0) {
+        // Random stored map, or the procedural fallback if the DB is empty
+        const map = await loadLobbyMap(null);
+        const newLobby = openLobby(map, {});
+
+        io.emit('lobbies_update', listedLobbies());
+        console.log(`Auto-created lobby: ${newLobby.id} with map: ${newLobby.mapName}`);
     }
 }, 5000);
 
+setInterval(updateLobbyTimers, 1000);
+
+// Ranked matchmaking: windows widen over time, so re-check the queue often
+setInterval(() => {
+    rankedQueue.popGroups(Date.now()).forEach(group => startRankedMatch(group));
+}, 2000);
+
 httpServer.listen(PORT, () => {
     console.log(`Socket.io server running on port ${PORT}`);
 });
+
+resumeMatches();
@@ -55,6 +55,24 @@ export interface Player {
   center: Coordinates;
   landArea: number;
   ownedTiles: Tile[];
+  stats: PlayerMatchStats;
+  teamId: number | null; // Teammates share victory and never fight each other
+  lastAttackerId: string | null; // Last player to take a tile from us, credited if we fall
+}
+
+// Running counters for the end-of-match standings
+export interface PlayerMatchStats {
+  peakLand: number;
+  buildingsBuilt: number; // Paid buildings only, the free starting keep isn't counted
+  unitsRaised: number;
+  eliminatedAtTick: number | null; // Logic tick at which the player lost their last tile
+}
+
+// A player losing their last tile. They stay in the match as an onlooker.
+export interface EliminationEvent {
+  playerId: string;
+  eliminatedById: string | null; // null if the land simply crumbled (e.g. a keep razed with nobody to claim it)
+  tick: number;
 }
 
 // Used for passing config from Lobby to Game Engine
@@ -64,6 +82,7 @@ export interface PlayerProfile {
   isAI: boolean;
   aiType: AIType;
   color: string;
+  teamId?: number | null; // Team games only (1-based side), bots never have one
 }
 
 export interface Tile {
@@ -96,15 +115,39 @@ export interface Unit {
   y: number;
   targetX?: number;
   targetY?: number;
-  hasCommand: boolean; // True if moving to a user-defined location
+  orders: UnitOrder[]; // Player orders, the first one is being carried out. Empty: idle (auto-attack, wander)
+  path?: Coordinates[]; // Waypoints left to targetX/targetY, see game/Pathfinder.ts
+  stationed?: boolean; // Sent somewhere by its player: holds that spot instead of wandering off when idle
   idleTicks: number;   // Count ticks to trigger wander behavior
   hp: number;
   maxHp: number;
   attack: number;
   speed: number;
   range: number;
+  cooldownTicks: number; // Logic ticks before it can strike again, see UNIT_STATS cooldown
+  cargo?: Unit[]; // Boats: the land units aboard, out of their player's roster until they land
 }
 
+// How a blow hurts and what takes it, see DAMAGE_MULTIPLIERS in constants.ts
+export type DamageType = 'PIERCE' | 'SLASH' | 'CHARGE' | 'SIEGE';
+export type ArmorClass = 'LIGHT' | 'HEAVY' | 'RANGED' | 'MOUNTED' | 'SIEGE' | 'NAVAL' | 'BUILDING';
+
+// A player order held in a unit's queue
+export type UnitOrder =
+  | { type: 'MOVE'; x: number; y: number } // March there, ignoring enemies
+  | { type: 'ATTACK_MOVE'; x: number; y: number } // March there, fighting anything in range on the way
+  | { type: 'ATTACK'; targetUnitId: string | null; x: number; y: number } // An enemy unit, or the building at x/y
+  | { type: 'PATROL'; x: number; y: number; fromX: number; fromY: number } // Attack-move back and forth, forever
+  | { type: 'HOLD' } // Never move, only fight what comes in range
+  | { type: 'EMBARK'; boatId: string } // Land units: walk up to one of our boats and go aboard
+  | { type: 'UNLOAD'; x: number; y: number }; // Boats: sail to the shore nearest to x/y and land the troops aboard
+
+// STOP clears the queue, it is never stored
+export type UnitOrderType = UnitOrder['type'] | 'STOP';
+
+// How a group of units lines up at the end of a group move (see game/formations.ts)
+export type Formation = 'LINE' | 'WEDGE' | 'COLUMN';
+
 export interface AttackWave {
   id: string;
   ownerId: string;
@@ -121,6 +164,43 @@ export interface GameConfig {
   mapWidth: number;
   mapHeight: number;
   tileSize: number;
+  matchId?: string; // Lobby id of a hosted match
+  mapName?: string;
+  rules?: MatchRules; // DEFAULT_MATCH_RULES if omitted
+}
+
+export type BotDifficulty = 'EASY' | 'NORMAL' | 'HARD';
+
+// Simulation rules picked by the lobby host. Every engine of a match (server, lockstep peers, replays) must use the same.
+export interface MatchRules {
+  mode: GameMode;
+  botDifficulty: BotDifficulty;
+  teams: number; // 0 = free-for-all, otherwise the number of sides humans pick from
+}
+
+// How a match is won, see game/VictoryEvaluator.ts. Every mode also ends with the last faction standing,
+// and at MAX_MATCH_TICKS the side with the most land wins.
+// CONQUEST: more than winPercentage of all land.
+// TIMED: most land when the time runs out.
+// REGICIDE: last side with a standing KINGDOM keep.
+// KING_OF_THE_HILL: hold most of the central hill for holdSeconds in a row.
+export type GameMode =
+  | { type: 'CONQUEST'; winPercentage: number }
+  | { type: 'TIMED'; minutes: number }
+  | { type: 'REGICIDE' }
+  | { type: 'KING_OF_THE_HILL'; hillRadius: number; holdSeconds: number };
+
+export type GameModeType = GameMode['type'];
+
+// Simulation state of the evaluator (saved and synced with the engine)
+export interface VictoryState {
+  hillHolderId: string | null; // Side holding the hill: a teamId as 'T<n>', otherwise a player id
+  hillHeldTicks: number;
+}
+
+export interface BotCounts {
+  camps: number;
+  kingdoms: number;
 }
 
 export interface Camera {
@@ -129,26 +209,214 @@ export interface Camera {
   zoom: number;
 }
 
+// Stored by the client to log back into its account (the server only keeps a hash of the token)
+export interface Credentials {
+  playerId: string;
+  claimToken: string;
+}
+
 // --- MATCHMAKING TYPES ---
 
+// AUTHORITATIVE: server ships state deltas every tick.
+// LOCKSTEP: server ships only each step's commands, clients simulate.
+export type NetMode = 'AUTHORITATIVE' | 'LOCKSTEP';
+
 export interface Lobby {
   id: string;
   mapId: string; // Link to DB Map
   mapName: string;
+  hostId: string; // Changes settings and starts the match, 'SERVER' until someone joins an auto lobby
   players: PlayerProfile[];
   maxPlayers: number;
   createdAt: number;
   expiresAt: number;
-  status: 'WAITING' | 'STARTING' | 'IN_PROGRESS';
+  status: 'WAITING' | 'STARTING' | 'IN_PROGRESS' | 'FINISHED'; // FINISHED: unlisted, kept until the last player leaves the results
+  netMode: NetMode;
+  spectatorCount: number;
+  ranked: boolean; // Formed by the ranked queue: closed to joins, updates ratings at the end
+  inviteCode: string | null; // Private lobbies only: never listed, joined with this code
+  bots: BotCounts;
+  rules: MatchRules;
+  roster: PlayerProfile[] | null; // Everyone in the match (humans and bots), built by the server at start
 }
 
+// Host-editable part of a lobby, see 'update_lobby_settings'. mapId null picks a random stored map.
+export interface LobbySettings {
+  mapId: string | null;
+  maxPlayers: number;
+  camps: number;
+  kingdoms: number;
+  botDifficulty: BotDifficulty;
+  mode: GameMode;
+  teams: number;
+}
+
+// --- NETWORK TYPES ---
+
+// LOBBY: everyone in the lobby before the match. ALL: everyone in the match (spectators read along).
+// TEAM: teammates, plus sworn allies once the match runs.
+export type ChatChannel = 'LOBBY' | 'ALL' | 'TEAM';
+
+export interface ChatMessage {
+  id: string;
+  channel: ChatChannel;
+  fromId: string;
+  fromName: string;
+  color: string;
+  text: string;
+  sentAt: number;
+}
+
+// Player intents sent to the server. The server overwrites playerId with the
+// sender's identity before applying, so clients cannot act for someone else.
+export type GameCommand =
+  | { type: 'EXPAND'; playerId: string; x: number; y: number; percentage: number }
+  | { type: 'BUILD'; playerId: string; buildingType: BuildingType; x: number; y: number }
+  | { type: 'SPAWN_UNIT'; playerId: string; unitType: UnitType; x: number; y: number }
+  | { type: 'MOVE_UNIT'; playerId: string; unitId: string; x: number; y: number }
+  | { type: 'MOVE_UNITS'; playerId: string; unitIds: string[]; x: number; y: number; formation: Formation }
+  | { type: 'ORDER_UNITS'; playerId: string; unitIds: string[]; order: UnitOrderType; x: number; y: number; formation: Formation; queue: boolean }
+  | { type: 'SPAWN_BASE'; playerId: string; x: number; y: number }
+  | { type: 'PROPOSE_TREATY'; playerId: string; targetId: string; treaty: TreatyType }
+  | { type: 'ANSWER_TREATY'; playerId: string; fromId: string; accept: boolean }
+  | { type: 'BREAK_TREATY'; playerId: string; targetId: string };
+
+// --- DIPLOMACY (see game/Diplomacy.ts) ---
+
+// NON_AGGRESSION: no attacks either way until it runs out.
+// ALLIANCE: open-ended, and allied land also shields against encirclement like a teammate's.
+export type TreatyType = 'NON_AGGRESSION' | 'ALLIANCE';
+
+export type Relation = 'SELF' | 'TEAM' | 'ALLIANCE' | 'NON_AGGRESSION' | 'WAR';
+
+export interface Treaty {
+  playerIds: [string, string]; // Sorted, one treaty per pair
+  type: TreatyType;
+  signedAtTick: number;
+  expiresAtTick: number | null; // null = until broken
+}
+
+export interface TreatyProposal {
+  fromId: string;
+  toId: string;
+  type: TreatyType;
+  expiresAtTick: number; // Unanswered proposals lapse
+}
+
+// Betrayal: whoever broke a treaty can't sign a new one with that player before untilTick
+export interface TreatyCooldown {
+  breakerId: string;
+  victimId: string;
+  untilTick: number;
+}
+
+export interface DiplomacyState {
+  treaties: Treaty[];
+  proposals: TreatyProposal[];
+  cooldowns: TreatyCooldown[];
+}
+
+export interface TileDelta {
+  x: number;
+  y: number;
+  ownerId: string | null;
+  building: Building | null;
+}
+
+// Player state as shipped over the wire (ownedTiles is rebuilt from the tile grid)
+export type SyncPlayerState = Omit<Player, 'ownedTiles'>;
+
+// Authoritative state pushed by the server every tick.
+// `full` syncs carry every owned/built tile, deltas only the tiles that changed.
+export interface GameStateSync {
+  tick: number;
+  full: boolean;
+  isGameActive: boolean;
+  winnerId: string | null;
+  players: SyncPlayerState[];
+  tiles: TileDelta[];
+  diplomacy: DiplomacyState;
+  victory: VictoryState;
+  eliminations: EliminationEvent[];
+}
+
+// Complete, versioned GameEngine state (see game/serialization.ts).
+// Grids are flat row-major arrays of mapWidth * mapHeight entries.
+export interface SavedGameState {
+  version: number;
+  config: GameConfig;
+  seed: number;
+  rngState: number;
+  tickCount: number;
+  stepCount: number;
+  placementTicks: number;
+  timeAccumulator: number;
+  isGameActive: boolean;
+  winnerId: string | null;
+  terrain: number[];  // [type, elev, type, elev...] like stored maps
+  owners: number[];   // Index into players, -1 for neutral
+  defense: number[];
+  buildings: Building[];
+  players: (SyncPlayerState & { ownedTiles: number[] })[]; // ownedTiles as tile indices, in cache order
+  logicAttacks: AttackWave[];
+  wipeOutQueue: { x: number, y: number, newOwnerId: string }[];
+  diplomacy: DiplomacyState;
+  victory: VictoryState;
+  eliminations: EliminationEvent[];
+}
+
+// Every command scheduled for one engine step, broadcast in LOCKSTEP mode
+export interface LockstepBatch {
+  step: number;
+  commands: GameCommand[];
+}
+
+// A recorded match: re-simulating the roster + map + seed with these commands reproduces it exactly
+export interface ReplayCommand {
+  step: number; // Engine step the command was applied on
+  command: GameCommand;
+}
+
+export interface ReplayData {
+  id: string; // Lobby/game id
+  seed: number;
+  mapId: string;
+  mapName: string;
+  roster: PlayerProfile[];
+  rules: MatchRules;
+  simulationVersion: number; // SIMULATION_VERSION of the server that recorded it, see game/Replay.ts
+  totalSteps: number;
+  winnerId: string | null;
+  winnerName: string | null;
+  commands: ReplayCommand[];
+  createdAt: number;
+}
+
+export type ReplaySummary = Omit<ReplayData, 'seed' | 'roster' | 'rules' | 'simulationVersion' | 'commands'>;
+
 export interface MatchLog {
   matchId: string;
   mapName: string;
   winnerName: string;
   winnerId: string;
+  winningTeamId: number | null; // Set in team games, every member of that team won
   totalPlayers: number;
   timestamp: number;
+  seed?: number; // Engine seed, enough to reproduce the match together with its commands
+  standings: PlayerStanding[]; // Sorted by placement
+}
+
+export interface PlayerStanding {
+  playerId: string;
+  name: string;
+  isAI: boolean;
+  placement: number; // 1 = winner
+  peakLand: number;
+  finalPopulation: number;
+  buildingsBuilt: number;
+  unitsRaised: number;
+  eliminatedAtTick: number | null;
+  eliminatedById: string | null;
 }
 
 export enum ViewState {
@@ -157,5 +425,55 @@ export enum ViewState {
   LOBBY = 'LOBBY',
   GAME_PLACEMENT = 'GAME_PLACEMENT',
   GAME_PLAYING = 'GAME_PLAYING',
-  RESULTS = 'RESULTS'
+  RESULTS = 'RESULTS',
+  REPLAY = 'REPLAY',
+  SPECTATING = 'SPECTATING',
+  LEADERBOARD = 'LEADERBOARD'
+}
+
+// --- STATS API TYPES (served under /api) ---
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  name: string;
+  color: string;
+  rating: number;
+  gamesPlayed: number;
+  wins: number;
+}
+
+export interface MatchHistoryEntry {
+  gameId: string;
+  mapName: string;
+  ranked: boolean;
+  placement: number;
+  totalPlayers: number;
+  peakLand: number;
+  endedAt: number | null;
+}
+
+export interface PlayerStats {
+  id: string;
+  name: string;
+  color: string;
+  rating: number;
+  createdAt: number;
+  lastSeen: number;
+  gamesPlayed: number;
+  wins: number;
+  winRate: number; // 0..1
+  favoriteMap: string | null; // Most played
+  history: MatchHistoryEntry[]; // Newest first
+}
+
+export interface GameRecord {
+  id: string;
+  mapName: string;
+  status: string;
+  ranked: boolean;
+  winnerId: string | null; // Only set for human winners
+  createdAt: number;
+  endedAt: number | null;
+  standings: PlayerStanding[];
 }